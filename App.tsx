@@ -1,131 +1,346 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { fetchWordData, generateImageForWord, generateAudioForWord } from './services/geminiService';
-import { playPCMAudio } from './utils/audio';
-import { GameStatus, GameWordData, GameImage, Difficulty, GUESS_LIMITS } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef, useReducer } from 'react';
+import { getWordProvider, createWordListProvider } from './services/wordProviders';
+import { loadWordLists, saveWordList, deleteWordList, createWordList, downloadWordList } from './services/wordLists';
+import { generatePuzzle } from './services/puzzleLoader';
+import { getFriendlyErrorMessage } from './services/generationErrors';
+import { logGuess, logRound, loadGuessLog, loadRoundLog, clearAnalytics } from './services/guessAnalytics';
+import { GameSnapshot, isResumable, loadSnapshot, saveSnapshot, clearSnapshot } from './services/gameSnapshot';
+import { playPCMAudio, speakTamil } from './utils/audio';
+import { printFlashcards } from './utils/flashcards';
+import { playLetter, playSyllables } from './services/letterAudio';
+import { connectClassroom, ClassroomConnection } from './services/classroomClient';
+import {
+  loadProfiles, saveProfiles, loadActiveProfileId, saveActiveProfileId, createProfile,
+  recordWordResult, isReviewRound, pickDueWord,
+} from './services/learnerProfiles';
+import {
+  gameReducer, initialGameState, GameState, GameAction, RoundRecord, getTeam, getLeaderboard, getWinners,
+  getMaxGuesses, isFinalRound, getSlotKeys, isSlotRevealed, isHintAvailable, hasUsedHint, getRevealableSlots, getRevealKeys,
+} from './utils/gameEngine';
+import { loadJSON, saveJSON } from './utils/storage';
+import { TEAM_COLOR_STYLES } from './utils/teamColors';
+import { segmentText, getLetterKeys, isChartLetter } from './utils/tamil';
+import { loadSettings, saveSettings } from './services/settings';
+import {
+  GameStatus, Difficulty, WordSource, HintType, HINT_TYPES, GuessEvent, RoundEvent, ClassroomBoard, WordCategory, WORD_CATEGORIES, isWordCategory, WordProvider, WordList, LearnerProfile, Team, DEFAULT_TEAMS, SeriesSettings, LoadedPuzzle,
+} from './types';
 import { HangmanCanvas } from './components/HangmanCanvas';
 import { WordDisplay } from './components/WordDisplay';
 import { Keyboard } from './components/Keyboard';
+import { TamilKeyboard } from './components/TamilKeyboard';
+import { TypedGuessInput } from './components/TypedGuessInput';
+import { HintMenu } from './components/HintMenu';
+import { SeriesReview } from './components/SeriesReview';
 import { ImagePanel } from './components/ImagePanel';
+import { AssetCacheControl } from './components/AssetCacheControl';
+import { LearnerProfilePicker } from './components/LearnerProfilePicker';
+import { TeamSetup } from './components/TeamSetup';
+import { Scoreboard } from './components/Scoreboard';
+import { SettingsScreen } from './components/SettingsScreen';
+import { TeacherDashboard } from './components/TeacherDashboard';
+import { TurnTimer } from './components/TurnTimer';
+import { WordListManager } from './components/WordListManager';
+import { StudentScreen } from './components/StudentScreen';
 
-const TOTAL_ROUNDS = 6;
+interface PrefetchedPuzzle {
+  difficulty: Difficulty;
+  category: WordCategory | null;
+  provider: WordProvider;
+  promise: Promise<LoadedPuzzle | null>;
+  result?: LoadedPuzzle | null; // Set once the promise settles
+}
 
-// Utility to segment Tamil text correctly into graphemes
-const segmentText = (text: string): string[] => {
-  const segmenter = new (Intl as any).Segmenter('ta', { granularity: 'grapheme' });
-  return Array.from(segmenter.segment(text)).map((segment: any) => segment.segment);
+const SOURCE_LABELS: Record<WordSource, string> = {
+  [WordSource.GEMINI]: '✨ Gemini AI',
+  [WordSource.OFFLINE]: '📦 Offline Deck',
+  [WordSource.WORD_LIST]: '📝 My Lists',
 };
 
+// The typing box only makes sense with a real keyboard; on tablets it would pop up the on-screen one
+const HAS_PHYSICAL_KEYBOARD = window.matchMedia('(pointer: fine)').matches;
+
+// The classroom this screen is hosting; code is null until the server assigns one
+interface HostedClassroom {
+  code: string | null;
+  joinUrls: string[];
+  players: number;
+  connected: boolean;
+}
+
 const App: React.FC = () => {
-  const [status, setStatus] = useState<GameStatus>(GameStatus.IDLE);
-  const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.EASY);
-  const [wordData, setWordData] = useState<GameWordData | null>(null);
-  const [images, setImages] = useState<GameImage[]>([]);
-  const [audioData, setAudioData] = useState<string | null>(null);
-  const [guessedLetters, setGuessedLetters] = useState<Set<string>>(new Set());
-  const [wrongGuesses, setWrongGuesses] = useState<number>(0);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  
-  // Track words used in current session to prevent duplicates
-  const [usedWords, setUsedWords] = useState<string[]>([]);
-
-  // Team Logic State
-  const [scores, setScores] = useState<{ A: number; B: number }>({ A: 0, B: 0 });
-  const [currentTeam, setCurrentTeam] = useState<'A' | 'B'>('A');
-  const [roundStarter, setRoundStarter] = useState<'A' | 'B'>('A');
-  const [roundNumber, setRoundNumber] = useState<number>(1);
-
-  // Derived state: The word split into functional Tamil letters
-  const wordSegments = useMemo(() => {
-    return wordData ? segmentText(wordData.word) : [];
-  }, [wordData]);
+  const [state, dispatch] = useReducer(gameReducer, initialGameState);
+  const {
+    status, difficulty, category, wordData, wordSegments, images, audioData, guessedLetters,
+    isReviewWord, wrongGuesses, pictureGuess, errorMsg, usedWords, teams, scores, currentTeam, roundStarter, roundNumber,
+    hintsUsed, eliminatedLetters, turnId,
+  } = state;
+
+  // Classroom tablets are often offline, so default to the bundled deck there
+  const [wordSource, setWordSource] = useState<WordSource>(navigator.onLine ? WordSource.GEMINI : WordSource.OFFLINE);
+
+  // Teacher-imported word lists
+  const [wordLists, setWordLists] = useState<WordList[]>([]);
+  const [activeWordListId, setActiveWordListId] = useState<string | null>(() => loadJSON<string | null>('activeWordList', null));
+  const activeWordList = wordLists.find(list => list.id === activeWordListId) ?? null;
+
+  useEffect(() => {
+    loadWordLists()
+      .then(setWordLists)
+      .catch(err => console.warn("Couldn't read the word lists:", err));
+  }, []);
+
+  // Only shown once it is stored, so a list never disappears on the next reload
+  const addWordList = async (list: WordList) => {
+    await saveWordList(list);
+    setWordLists(prev => [...prev, list]);
+    setActiveWordListId(list.id);
+  };
+
+  const removeWordList = (id: string) => {
+    deleteWordList(id).catch(err => console.warn("Couldn't delete the word list:", err));
+    setWordLists(prev => prev.filter(list => list.id !== id));
+    if (id === activeWordListId) setActiveWordListId(null);
+  };
+
+  useEffect(() => {
+    saveJSON('activeWordList', activeWordListId);
+  }, [activeWordListId]);
+
+  const provider = useMemo<WordProvider | null>(() => {
+    if (wordSource !== WordSource.WORD_LIST) return getWordProvider(wordSource);
+    if (!activeWordList) return null;
+    return createWordListProvider(activeWordList, getWordProvider(navigator.onLine ? WordSource.GEMINI : WordSource.OFFLINE));
+  }, [wordSource, activeWordList]);
+
+  // Rules for the next series; the running series keeps its own copy in the game state
+  const [settings, setSettings] = useState<SeriesSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  // Logged guesses and rounds, read from storage while the dashboard is open
+  const [analytics, setAnalytics] = useState<{ guesses: GuessEvent[]; rounds: RoundEvent[] } | null>(null);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  // Topic picked for the next series; null plays words from any topic
+  const [seriesCategory, setSeriesCategory] = useState<WordCategory | null>(() => {
+    const saved = loadJSON<string | null>('category', null);
+    return isWordCategory(saved) ? saved : null;
+  });
+
+  useEffect(() => {
+    saveJSON('category', seriesCategory);
+  }, [seriesCategory]);
+
+  // Team setup for the next series; remembered between sessions
+  const [teamSetup, setTeamSetup] = useState<Team[]>(() => {
+    const saved = loadJSON<Team[]>('teams', DEFAULT_TEAMS);
+    return saved.length > 0 ? saved : DEFAULT_TEAMS;
+  });
+
+  useEffect(() => {
+    saveJSON('teams', teamSetup);
+  }, [teamSetup]);
+
+  // Learner profiles keep word history across series for spaced-repetition review
+  const [profiles, setProfiles] = useState<LearnerProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(loadActiveProfileId);
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? null;
+
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  useEffect(() => {
+    saveActiveProfileId(activeProfileId);
+  }, [activeProfileId]);
+
+  const { letterFamilyMode } = state.settings;
+  // Easy words always keep the small letter set
+  const useFullKeyboard = state.settings.fullKeyboard && difficulty !== Difficulty.EASY;
 
   // Derived state: Keyboard letters (Target letters + Distractors) shuffled
+  // In letter-family mode every letter is offered as its mei and uyir parts
   const keyboardLetters = useMemo(() => {
     if (!wordData) return [];
-    const targetSet = new Set(segmentText(wordData.word));
+    const toKeys = (letter: string): string[] => letterFamilyMode ? getLetterKeys(letter) : [letter];
+    const targetSet = new Set(segmentText(wordData.word).flatMap(toKeys));
     // Filter out distractors that might accidentally be in the target
-    const validDistractors = wordData.distractorLetters.filter(l => !targetSet.has(l));
+    const validDistractors = Array.from(new Set<string>(wordData.distractorLetters.flatMap(toKeys))).filter(l => !targetSet.has(l));
     // Combine and shuffle
     const combined = [...Array.from(targetSet), ...validDistractors];
     return combined.sort(() => Math.random() - 0.5);
-  }, [wordData]);
+  }, [wordData, letterFamilyMode]);
 
-  // Load a single word/puzzle without resetting the series score
-  const loadPuzzle = useCallback(async (currentDifficulty: Difficulty) => {
-    try {
-      setStatus(GameStatus.LOADING);
-      setErrorMsg(null);
-      setGuessedLetters(new Set());
-      setWrongGuesses(0);
-      setImages([]);
-      setAudioData(null);
-
-      // 1. Fetch Word Data with difficulty and history
-      const data = await fetchWordData(currentDifficulty, usedWords);
-      setWordData(data);
-      
-      // Update history
-      setUsedWords(prev => [...prev, data.word]);
-
-      // 2. Generate Images and Audio in Parallel
-      const imagePrompts = [
-        { label: data.english, isTarget: true },
-        { label: data.distractors[0], isTarget: false },
-        { label: data.distractors[1], isTarget: false },
-      ];
-
-      const imagePromises = imagePrompts.map(async (item) => {
-        const src = await generateImageForWord(item.label);
-        return { ...item, src } as GameImage;
-      });
+  // Letters of the word the alphabet chart can't build (e.g. ஸ்ரீ) get keys of their own
+  const extraKeyboardLetters = useMemo(() => {
+    const keys: string[] = wordSegments.flatMap(segment => getSlotKeys(segment, letterFamilyMode));
+    return Array.from(new Set(keys)).filter(key => !isChartLetter(key));
+  }, [wordSegments, letterFamilyMode]);
 
-      // Fetch audio for the target word
-      const audioPromise = generateAudioForWord(data.word);
+  // Keys that can no longer be pressed: guessed, or removed by a hint
+  const usedKeys = useMemo(() => new Set([...guessedLetters, ...eliminatedLetters]), [guessedLetters, eliminatedLetters]);
 
-      const [loadedImages, audioResult] = await Promise.all([
-        Promise.all(imagePromises),
-        audioPromise
-      ]);
+  // Wrong keys still on the keyboard, for the eliminate hint to pick from
+  const removableKeys = useMemo(() => {
+    const targetKeys = new Set(wordSegments.flatMap(segment => getSlotKeys(segment, letterFamilyMode)));
+    return keyboardLetters.filter(letter => !targetKeys.has(letter) && !usedKeys.has(letter));
+  }, [keyboardLetters, wordSegments, letterFamilyMode, usedKeys]);
 
-      setImages(loadedImages);
-      setAudioData(audioResult);
-      setStatus(GameStatus.PLAYING);
+  // Which letters a typed guess may be: anything on the chart with the full
+  // keyboard (just mei and uyir in letter-family mode), otherwise the keys shown
+  const isTypeableLetter = useCallback((letter: string) => {
+    if (extraKeyboardLetters.includes(letter)) return true;
+    if (!useFullKeyboard) return keyboardLetters.includes(letter);
+    if (!isChartLetter(letter)) return false;
+    return !letterFamilyMode || getLetterKeys(letter)[0] === letter;
+  }, [useFullKeyboard, letterFamilyMode, keyboardLetters, extraKeyboardLetters]);
+
+  // Next round's puzzle, generated in the background while the current round is played
+  const prefetchRef = useRef<PrefetchedPuzzle | null>(null);
+  // Identifies the latest load so results from an abandoned one are ignored
+  const loadIdRef = useRef(0);
+
+  // Due words from the learner's history are mixed in on review rounds
+  const getReviewWord = useCallback((
+    round: number,
+    currentDifficulty: Difficulty,
+    currentCategory: WordCategory | null,
+    previousWords: string[]
+  ) => {
+    if (!activeProfile || !isReviewRound(round)) return null;
+    return pickDueWord(activeProfile, currentDifficulty, previousWords, currentCategory);
+  }, [activeProfile]);
+
+  const takePrefetch = (currentDifficulty: Difficulty, currentCategory: WordCategory | null): PrefetchedPuzzle | null => {
+    const prefetched = prefetchRef.current;
+    prefetchRef.current = null;
+    if (prefetched?.difficulty !== currentDifficulty || prefetched.category !== currentCategory || prefetched.provider !== provider) return null;
+    return prefetched;
+  };
 
+  // Load a single word/puzzle without resetting the series score
+  const loadPuzzle = useCallback(async (
+    currentDifficulty: Difficulty,
+    currentCategory: WordCategory | null,
+    previousWords: string[],
+    round: number,
+    prefetched: PrefetchedPuzzle | null = null
+  ) => {
+    const loadId = ++loadIdRef.current;
+    try {
+      if (!provider) throw new Error("No word list selected");
+      // Wait for a prefetch still in flight, and load from scratch if it failed
+      const puzzle = (prefetched ? await prefetched.promise : null)
+        ?? await generatePuzzle(
+          provider,
+          currentDifficulty,
+          currentCategory,
+          previousWords,
+          getReviewWord(round, currentDifficulty, currentCategory, previousWords)
+        );
+
+      if (loadId === loadIdRef.current) dispatch({ type: 'PUZZLE_LOADED', puzzle });
     } catch (err) {
       console.error(err);
-      setErrorMsg("Oops! Something went wrong loading the game. Please try again.");
-      setStatus(GameStatus.ERROR);
+      if (loadId === loadIdRef.current) {
+        dispatch({ type: 'PUZZLE_FAILED', message: getFriendlyErrorMessage(err) });
+      }
     }
-  }, [usedWords]);
+  }, [provider, getReviewWord]);
+
+  // Start generating the next round as soon as the current one is playable
+  useEffect(() => {
+    if (status !== GameStatus.PLAYING || isFinalRound(state) || prefetchRef.current || !provider) return;
+
+    const prefetched: PrefetchedPuzzle = {
+      difficulty,
+      category,
+      provider,
+      promise: generatePuzzle(
+        provider,
+        difficulty,
+        category,
+        usedWords,
+        getReviewWord(roundNumber + 1, difficulty, category, usedWords)
+      )
+        .then(puzzle => {
+          prefetched.result = puzzle;
+          return puzzle;
+        })
+        .catch(err => {
+          console.warn("Prefetching the next puzzle failed:", err);
+          prefetched.result = null;
+          return null;
+        }),
+    };
+    prefetchRef.current = prefetched;
+  }, [status, roundNumber, difficulty, category, provider, usedWords, getReviewWord, state.settings]);
 
   const initSeries = () => {
-     setStatus(GameStatus.DIFFICULTY_SELECT);
+     dispatch({ type: 'SHOW_DIFFICULTY_SELECT' });
+  };
+
+  // A match interrupted by a reload, offered on the start screen
+  const [savedMatch, setSavedMatch] = useState<GameSnapshot | null>(null);
+
+  useEffect(() => {
+    loadSnapshot()
+      .then(setSavedMatch)
+      .catch(err => console.warn("Couldn't read the saved match:", err));
+  }, []);
+
+  // Save after every action so a refresh mid-match loses nothing
+  useEffect(() => {
+    const saved = isResumable(state)
+      ? saveSnapshot(state, wordSource, activeWordListId)
+      : state.status === GameStatus.SERIES_OVER ? clearSnapshot() : null;
+    saved?.catch(err => console.warn("Couldn't save the match:", err));
+  }, [state, wordSource, activeWordListId]);
+
+  const resumeMatch = (snapshot: GameSnapshot) => {
+    prefetchRef.current = null;
+    loadIdRef.current++;
+    setWordSource(snapshot.wordSource);
+    if (snapshot.wordListId) setActiveWordListId(snapshot.wordListId);
+    dispatch({ type: 'RESTORE', state: snapshot.state });
+    setSavedMatch(null);
+  };
+
+  const discardSavedMatch = () => {
+    clearSnapshot().catch(err => console.warn("Couldn't clear the saved match:", err));
+    setSavedMatch(null);
+  };
+
+  const startNewSeries = (selectedDifficulty: Difficulty) => {
+    prefetchRef.current = null; // A prefetch from the last tournament may repeat or mismatch
+    setSavedMatch(null); // Replaced by the snapshot of the new series
+    // Blank names fall back to a numbered team so the scoreboard is never empty
+    const seriesTeams = teamSetup.map((team, index) => ({ ...team, name: team.name.trim() || `Team ${index + 1}` }));
+    dispatch({ type: 'START_SERIES', difficulty: selectedDifficulty, category: seriesCategory, teams: seriesTeams, settings });
+    loadPuzzle(selectedDifficulty, seriesCategory, [], 1);
   };
 
-  const startNewSeries = useCallback((selectedDifficulty: Difficulty) => {
-    setDifficulty(selectedDifficulty);
-    setScores({ A: 0, B: 0 });
-    setRoundNumber(1);
-    setRoundStarter('A');
-    setCurrentTeam('A');
-    setUsedWords([]); // Reset word history for new tournament
-    loadPuzzle(selectedDifficulty);
-  }, [loadPuzzle]);
+  const retryPuzzle = () => {
+    dispatch({ type: 'RETRY_PUZZLE' });
+    loadPuzzle(difficulty, category, usedWords, roundNumber);
+  };
 
   const handleNextRound = () => {
-    if (roundNumber >= TOTAL_ROUNDS) {
-      setStatus(GameStatus.SERIES_OVER);
-    } else {
-      const nextRound = roundNumber + 1;
-      setRoundNumber(nextRound);
-      
-      // Rotate starter: Puzzle 1->A, Puzzle 2->B, Puzzle 3->A...
-      const nextStarter = roundStarter === 'A' ? 'B' : 'A';
-      setRoundStarter(nextStarter);
-      setCurrentTeam(nextStarter); // The starter takes the first turn
-      
-      loadPuzzle(difficulty);
+    if (isFinalRound(state)) {
+      dispatch({ type: 'NEXT_ROUND' });
+      return;
+    }
+
+    const prefetched = takePrefetch(difficulty, category);
+    // Prefetch already finished: swap it in without showing the loading screen
+    if (prefetched?.result) {
+      dispatch({ type: 'NEXT_ROUND', puzzle: prefetched.result });
+      return;
     }
+
+    dispatch({ type: 'NEXT_ROUND' });
+    loadPuzzle(difficulty, category, usedWords, roundNumber + 1, prefetched);
   };
 
   // Initial load
@@ -137,69 +352,253 @@ const App: React.FC = () => {
   useEffect(() => {
     if (status === GameStatus.WON && audioData) {
       const timer = setTimeout(() => {
-        playPCMAudio(audioData);
+        playPCMAudio(audioData, { playbackRate: state.settings.playbackRate });
       }, 500);
       return () => clearTimeout(timer);
     }
-  }, [status, audioData]);
+  }, [status, audioData, state.settings.playbackRate]);
 
-  const handleGuess = (letter: string) => {
-    if (status !== GameStatus.PLAYING) return;
-    
-    // Optimistic update
-    const newGuessed = new Set(guessedLetters);
-    newGuessed.add(letter);
-    setGuessedLetters(newGuessed);
-
-    const isCorrect = wordSegments.includes(letter);
-    const maxGuesses = GUESS_LIMITS[difficulty];
-
-    if (!isCorrect) {
-      // Wrong guess
-      const newWrong = wrongGuesses + 1;
-      setWrongGuesses(newWrong);
-      if (newWrong >= maxGuesses) {
-        setStatus(GameStatus.LOST);
-        // No score change on loss
-      } else {
-        // Switch turn to other team on failure
-        setCurrentTeam(prev => prev === 'A' ? 'B' : 'A');
-      }
-    } else {
-      // Correct guess: Current team KEEPS the turn
-      // Check win condition
-      const allGuessed = wordSegments.every(seg => newGuessed.has(seg));
-      if (allGuessed) {
-        setStatus(GameStatus.WON);
-        // Award point to the team that made the winning guess
-        setScores(prev => ({
-          ...prev,
-          [currentTeam]: prev[currentTeam] + 1
-        }));
-      }
+  // Update the learner's word history once a round is decided
+  const recordRoundResult = (next: GameState) => {
+    if (!activeProfileId || !next.wordData) return;
+    const solved = next.status === GameStatus.WON;
+    setProfiles(prev => prev.map(profile => profile.id === activeProfileId
+      ? recordWordResult(profile, next.wordData!, next.difficulty, solved, next.wrongGuesses, getMaxGuesses(next))
+      : profile
+    ));
+  };
+
+  // Feed the teacher's analytics: every accepted guess, and each round's outcome
+  const logForAnalytics = (action: GameAction, next: GameState, roundOver: boolean) => {
+    if (!next.wordData) return;
+    const timestamp = Date.now();
+    if (action.type === 'GUESS' && next !== state) {
+      logGuess({
+        timestamp,
+        letter: action.letter,
+        correct: next.wrongGuesses === state.wrongGuesses,
+        word: next.wordData.word,
+        difficulty: next.difficulty,
+        team: getTeam(state, state.currentTeam).name,
+        learner: activeProfile?.name ?? null,
+      });
     }
+    if (roundOver) {
+      logRound({
+        timestamp,
+        word: next.wordData.word,
+        english: next.wordData.english,
+        difficulty: next.difficulty,
+        solved: next.status === GameStatus.WON,
+        wrongGuesses: next.wrongGuesses,
+      });
+    }
+  };
+
+  // Dispatch an action, running round-end bookkeeping if it decides the round
+  const dispatchGameAction = (action: GameAction) => {
+    const next = gameReducer(state, action);
+    dispatch(action);
+    const roundOver = (next.status === GameStatus.WON || next.status === GameStatus.LOST) && next.status !== status;
+    logForAnalytics(action, next, roundOver);
+    if (roundOver) recordRoundResult(next);
+  };
+
+  const handleGuess = (letter: string) => {
+    if (state.settings.letterSounds) playLetter(provider, letter, state.settings.playbackRate);
+    dispatchGameAction({ type: 'GUESS', letter });
+  };
+
+  const handlePicturePick = (label: string) => {
+    dispatchGameAction({ type: 'PICK_PICTURE', label });
   };
 
   const playAudio = () => {
-    if (audioData) playPCMAudio(audioData);
+    if (audioData) playPCMAudio(audioData, { playbackRate: state.settings.playbackRate });
   };
 
-  const getTeamColor = (team: 'A' | 'B') => {
-    if (team === 'A') return 'text-blue-600 bg-blue-50 border-blue-200';
-    return 'text-orange-600 bg-orange-50 border-orange-200';
+  // Rounds from the offline deck have no recording, so the browser voice reads those
+  const playRoundAudio = (round: RoundRecord) => {
+    const options = { playbackRate: state.settings.playbackRate };
+    if (round.audioData) playPCMAudio(round.audioData, options);
+    else speakTamil(round.wordData.word, options);
+  };
+
+  // Letter-by-letter replay of the answer, highlighting each slot as it is spoken
+  const [speakingIndex, setSpeakingIndex] = useState<number | null>(null);
+  const replayIdRef = useRef(0);
+
+  const playSlowly = async () => {
+    const replayId = ++replayIdRef.current;
+    const isCancelled = () => replayId !== replayIdRef.current;
+    await playSyllables(provider, wordSegments, state.settings.playbackRate, setSpeakingIndex, isCancelled);
+    if (!isCancelled()) setSpeakingIndex(null);
   };
 
-  const getTeamBadgeStyle = (team: 'A' | 'B') => {
-    const isActive = currentTeam === team && status === GameStatus.PLAYING;
-    const baseStyle = "flex-1 p-3 rounded-2xl border-2 transition-all duration-300 flex flex-col items-center justify-center";
-    
-    if (team === 'A') {
-      return `${baseStyle} ${isActive ? 'bg-blue-100 border-blue-500 ring-4 ring-blue-200 transform scale-105 shadow-md' : 'bg-white border-gray-200 opacity-80 grayscale-[0.3]'}`;
-    } else {
-      return `${baseStyle} ${isActive ? 'bg-orange-100 border-orange-500 ring-4 ring-orange-200 transform scale-105 shadow-md' : 'bg-white border-gray-200 opacity-80 grayscale-[0.3]'}`;
+  // A new puzzle stops any replay still running
+  useEffect(() => {
+    replayIdRef.current++;
+    setSpeakingIndex(null);
+  }, [wordData]);
+
+  const hintAvailability = Object.fromEntries(HINT_TYPES.map(hint => {
+    const extraCheck = hint === 'audio' ? !!audioData : hint === 'eliminate' ? removableKeys.length > 0 : true;
+    return [hint, extraCheck && isHintAvailable(state, hint)];
+  })) as Record<HintType, boolean>;
+
+  // Random choices are made here so the reducer stays deterministic
+  const handleUseHint = (hint: HintType) => {
+    let letters: string[] | undefined;
+    if (hint === 'reveal') {
+      const revealable = getRevealableSlots(state);
+      const segment = revealable[Math.floor(Math.random() * revealable.length)];
+      letters = getRevealKeys(state, segment);
+    } else if (hint === 'eliminate') {
+      letters = [...removableKeys].sort(() => Math.random() - 0.5).slice(0, 3);
     }
+    dispatchGameAction({ type: 'USE_HINT', hint, letters });
+    if (hint === 'audio') playAudio();
   };
 
+  // Turn timer: counts down each turn and passes it on at zero
+  const turnSeconds = state.settings.turnTimer ? state.settings.turnSeconds[difficulty] : null;
+  const [turnTimeLeft, setTurnTimeLeft] = useState<number | null>(null);
+  const [timerPaused, setTimerPaused] = useState(false);
+  const [tabHidden, setTabHidden] = useState(document.hidden);
+
+  useEffect(() => {
+    const onVisibilityChange = () => setTabHidden(document.hidden);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  // Every move starts the next turn with a full clock
+  useEffect(() => {
+    setTurnTimeLeft(status === GameStatus.PLAYING ? turnSeconds : null);
+  }, [status, turnId, turnSeconds]);
+
+  useEffect(() => {
+    if (turnTimeLeft === null || timerPaused || tabHidden) return;
+    if (turnTimeLeft <= 0) {
+      dispatchGameAction({ type: 'TURN_TIMEOUT' });
+      return;
+    }
+    const timer = setTimeout(() => setTurnTimeLeft(left => left === null ? null : left - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [turnTimeLeft, timerPaused, tabHidden]);
+
+  // Classroom mode: this screen hosts a room that student devices join on the local network
+  const [classroom, setClassroom] = useState<HostedClassroom | null>(null);
+  const classroomRef = useRef<ClassroomConnection | null>(null);
+  // Lets a reconnecting host take its room back instead of opening a new one
+  const hostedRoomRef = useRef<{ code: string; hostToken: string } | null>(null);
+  // Set every render so guesses from students see the current game
+  const remoteGuessRef = useRef<(teamId: string, letter: string) => void>(() => {});
+  // Student mode, opened from a join link (?join=CODE) or the start screen
+  const [studentCode, setStudentCode] = useState<string | null>(() => new URLSearchParams(window.location.search).get('join'));
+
+  const startHosting = () => {
+    if (classroomRef.current) return;
+    setClassroom({ code: null, joinUrls: [], players: 0, connected: false });
+    classroomRef.current = connectClassroom({
+      onOpen: send => send({ type: 'host', ...hostedRoomRef.current }),
+      onMessage: message => {
+        if (message.type === 'hosted') {
+          hostedRoomRef.current = { code: message.code, hostToken: message.hostToken };
+          setClassroom(prev => prev && { ...prev, code: message.code, joinUrls: message.joinUrls });
+        } else if (message.type === 'players') {
+          setClassroom(prev => prev && { ...prev, players: message.count });
+        } else if (message.type === 'guess') {
+          remoteGuessRef.current(message.teamId, message.letter);
+        } else if (message.type === 'error') {
+          console.warn('Classroom server:', message.message);
+        }
+      },
+      onConnectionChange: connected => setClassroom(prev => prev && { ...prev, connected }),
+    });
+  };
+
+  const stopHosting = () => {
+    classroomRef.current?.close();
+    classroomRef.current = null;
+    hostedRoomRef.current = null;
+    setClassroom(null);
+  };
+
+  useEffect(() => () => classroomRef.current?.close(), []);
+
+  // Students only ever see revealed letters, never the answer
+  const isHosting = classroom !== null;
+  const classroomBoard = useMemo<ClassroomBoard | null>(() => {
+    if (!isHosting) return null;
+    const roundOver = status === GameStatus.WON || status === GameStatus.LOST;
+    return {
+      status,
+      roundNumber,
+      totalRounds: state.settings.totalRounds,
+      teams,
+      scores,
+      currentTeam,
+      clue: wordData?.english ?? null,
+      slots: wordSegments.map(segment =>
+        roundOver || isSlotRevealed(segment, guessedLetters, letterFamilyMode) ? segment : null
+      ),
+      keys: useFullKeyboard ? extraKeyboardLetters : keyboardLetters,
+      fullKeyboard: useFullKeyboard,
+      letterFamilyMode,
+      usedKeys: Array.from(usedKeys),
+      wrongGuesses,
+      maxGuesses: getMaxGuesses(state),
+      progressTheme: state.settings.progressTheme,
+    };
+  }, [isHosting, state, wordSegments, keyboardLetters, extraKeyboardLetters, useFullKeyboard, letterFamilyMode, usedKeys]);
+
+  // Resent after a reconnect too, so students catch up
+  useEffect(() => {
+    if (classroomBoard && classroom?.code && classroom.connected) {
+      classroomRef.current?.send({ type: 'board', board: classroomBoard });
+    }
+  }, [classroomBoard, classroom?.code, classroom?.connected]);
+
+  remoteGuessRef.current = (teamId, letter) => {
+    if (status !== GameStatus.PLAYING || teamId !== currentTeam) return;
+    if (!isTypeableLetter(letter) || usedKeys.has(letter)) return;
+    handleGuess(letter);
+  };
+
+  const activeTeam = getTeam(state, currentTeam);
+  const teamColors = TEAM_COLOR_STYLES[activeTeam.color];
+
+  if (studentCode !== null) {
+    return (
+      <StudentScreen
+        initialCode={studentCode}
+        onLeave={() => {
+          setStudentCode(null);
+          window.history.replaceState(null, '', window.location.pathname);
+        }}
+      />
+    );
+  }
+
+  if (analytics && (status === GameStatus.DIFFICULTY_SELECT || status === GameStatus.IDLE)) {
+    return (
+      <TeacherDashboard
+        guesses={analytics.guesses}
+        rounds={analytics.rounds}
+        onClear={() => {
+          clearAnalytics();
+          setAnalytics({ guesses: [], rounds: [] });
+        }}
+        onClose={() => setAnalytics(null)}
+      />
+    );
+  }
+
+  if (showSettings && (status === GameStatus.DIFFICULTY_SELECT || status === GameStatus.IDLE)) {
+    return <SettingsScreen settings={settings} onChange={setSettings} onClose={() => setShowSettings(false)} />;
+  }
+
   if (status === GameStatus.DIFFICULTY_SELECT || status === GameStatus.IDLE) {
     return (
       <div className="min-h-screen font-sans flex flex-col items-center justify-center bg-brand-50 p-4">
@@ -207,15 +606,56 @@ const App: React.FC = () => {
            <h1 className="text-4xl md:text-5xl font-extrabold text-brand-600 mb-2 font-tamil tracking-tight">
              தமிழ் <span className="text-accent-pink">Hangman</span>
            </h1>
-           <p className="text-gray-500 mb-8 text-lg">Choose your difficulty to start!</p>
+           <p className="text-gray-500 mb-8 text-lg">
+             {provider ? 'Choose your difficulty to start!' : 'Import or pick a word list below to start!'}
+           </p>
+
+           {savedMatch && (
+             <div className="mb-6 p-4 rounded-2xl bg-brand-50 border-2 border-brand-200 text-left">
+               <p className="font-bold text-brand-700">Match in progress</p>
+               <p className="text-sm text-gray-500 mb-3">
+                 Round {savedMatch.state.roundNumber} of {savedMatch.state.settings.totalRounds} ({savedMatch.state.difficulty}) · {savedMatch.state.teams.map(team => `${team.name} ${savedMatch.state.scores[team.id] ?? 0}`).join(' · ')}
+               </p>
+               <div className="flex gap-2">
+                 <button
+                   onClick={() => resumeMatch(savedMatch)}
+                   className="flex-1 py-2 bg-brand-500 hover:bg-brand-600 text-white font-bold rounded-xl"
+                 >
+                   Resume Match ➜
+                 </button>
+                 <button
+                   onClick={discardSavedMatch}
+                   className="px-4 py-2 rounded-xl border-2 border-gray-200 text-gray-500 font-bold hover:bg-gray-50"
+                 >
+                   Discard
+                 </button>
+               </div>
+             </div>
+           )}
            
-           <div className="space-y-4">
+           {/* Topic */}
+           <div className="mb-6">
+              <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-2">Topic</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                 {[null, ...(Object.keys(WORD_CATEGORIES) as WordCategory[])].map(option => (
+                   <button
+                     key={option ?? 'any'}
+                     onClick={() => setSeriesCategory(option)}
+                     className={`px-3 py-1.5 rounded-full text-sm font-bold border-2 transition-colors ${seriesCategory === option ? 'bg-brand-500 border-brand-500 text-white' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                   >
+                     {option ? `${WORD_CATEGORIES[option].emoji} ${WORD_CATEGORIES[option].label}` : '🎲 Any topic'}
+                   </button>
+                 ))}
+              </div>
+           </div>
+
+           <fieldset disabled={!provider} className="space-y-4 disabled:opacity-40">
               <button 
                 onClick={() => startNewSeries(Difficulty.EASY)}
                 className="w-full p-4 rounded-xl border-2 border-green-200 bg-green-50 hover:bg-green-100 text-green-700 font-bold text-xl transition-all hover:scale-105 flex items-center justify-between group"
               >
                 <span>🌱 Easy</span>
-                <span className="text-sm bg-green-200 px-2 py-1 rounded text-green-800 opacity-0 group-hover:opacity-100 transition-opacity">8 Chances</span>
+                <span className="text-sm bg-green-200 px-2 py-1 rounded text-green-800 opacity-0 group-hover:opacity-100 transition-opacity">{settings.guessLimits[Difficulty.EASY]} Chances</span>
               </button>
 
               <button 
@@ -223,7 +663,7 @@ const App: React.FC = () => {
                 className="w-full p-4 rounded-xl border-2 border-yellow-200 bg-yellow-50 hover:bg-yellow-100 text-yellow-700 font-bold text-xl transition-all hover:scale-105 flex items-center justify-between group"
               >
                 <span>🌿 Medium</span>
-                <span className="text-sm bg-yellow-200 px-2 py-1 rounded text-yellow-800 opacity-0 group-hover:opacity-100 transition-opacity">6 Chances</span>
+                <span className="text-sm bg-yellow-200 px-2 py-1 rounded text-yellow-800 opacity-0 group-hover:opacity-100 transition-opacity">{settings.guessLimits[Difficulty.MEDIUM]} Chances</span>
               </button>
 
               <button 
@@ -231,8 +671,117 @@ const App: React.FC = () => {
                 className="w-full p-4 rounded-xl border-2 border-red-200 bg-red-50 hover:bg-red-100 text-red-700 font-bold text-xl transition-all hover:scale-105 flex items-center justify-between group"
               >
                 <span>🌳 Hard</span>
-                <span className="text-sm bg-red-200 px-2 py-1 rounded text-red-800 opacity-0 group-hover:opacity-100 transition-opacity">4 Chances</span>
+                <span className="text-sm bg-red-200 px-2 py-1 rounded text-red-800 opacity-0 group-hover:opacity-100 transition-opacity">{settings.guessLimits[Difficulty.HARD]} Chances</span>
               </button>
+           </fieldset>
+
+           <button
+              onClick={() => setShowSettings(true)}
+              className="mt-4 text-sm font-bold text-gray-400 hover:text-brand-600 transition-colors"
+           >
+              ⚙️ {settings.totalRounds} rounds • {settings.pointsPerWin} {settings.pointsPerWin === 1 ? 'pt' : 'pts'} per word — change settings
+           </button>
+           <button
+              onClick={() => setAnalytics({ guesses: loadGuessLog(), rounds: loadRoundLog() })}
+              className="block mx-auto mt-1 text-sm font-bold text-gray-400 hover:text-brand-600 transition-colors"
+           >
+              📊 Class analytics
+           </button>
+
+           {/* Teams */}
+           <div className="mt-8 pt-6 border-t border-gray-100">
+              <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Who is playing?</p>
+              <TeamSetup teams={teamSetup} onChange={setTeamSetup} />
+           </div>
+
+           {/* Word Source */}
+           <div className="mt-8 pt-6 border-t border-gray-100">
+              <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Words come from</p>
+              <div className="flex gap-2">
+                {[WordSource.GEMINI, WordSource.OFFLINE, WordSource.WORD_LIST].map(source => (
+                  <button
+                    key={source}
+                    onClick={() => setWordSource(source)}
+                    className={`flex-1 py-2 px-3 rounded-xl border-2 font-bold transition-colors ${wordSource === source ? 'border-brand-500 bg-brand-50 text-brand-600' : 'border-gray-200 bg-white text-gray-400 hover:bg-gray-50'}`}
+                  >
+                    {SOURCE_LABELS[source]}
+                  </button>
+                ))}
+              </div>
+              {wordSource === WordSource.WORD_LIST && (
+                <div className="mt-4">
+                  <WordListManager
+                    lists={wordLists}
+                    activeListId={activeWordListId}
+                    onSelect={setActiveWordListId}
+                    onImport={addWordList}
+                    onDelete={removeWordList}
+                  />
+                </div>
+              )}
+              <div className="mt-4">
+                <AssetCacheControl />
+              </div>
+           </div>
+
+           {/* Learner Profile */}
+           <div className="mt-6 pt-6 border-t border-gray-100">
+              <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Who is learning?</p>
+              <LearnerProfilePicker
+                profiles={profiles}
+                activeProfileId={activeProfileId}
+                onSelect={setActiveProfileId}
+                onCreate={name => {
+                  const profile = createProfile(name);
+                  setProfiles(prev => [...prev, profile]);
+                  setActiveProfileId(profile.id);
+                }}
+                onDelete={id => {
+                  setProfiles(prev => prev.filter(profile => profile.id !== id));
+                  setActiveProfileId(null);
+                }}
+              />
+           </div>
+
+           {/* Classroom */}
+           <div className="mt-6 pt-6 border-t border-gray-100">
+              <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Classroom</p>
+              {classroom ? (
+                <div className="p-4 rounded-2xl bg-brand-50 border-2 border-brand-200">
+                  {classroom.code ? (
+                    <>
+                      <p className="text-gray-500">Students join with the code</p>
+                      <p className="text-5xl font-black tracking-[0.3em] text-brand-700 my-2">{classroom.code}</p>
+                      {classroom.joinUrls.map(url => (
+                        <p key={url} className="text-sm text-gray-500 font-mono break-all">{url}/?join={classroom.code}</p>
+                      ))}
+                      <p className="text-sm text-gray-400 mt-2">
+                        {classroom.connected ? `${classroom.players} device${classroom.players === 1 ? '' : 's'} joined` : 'Reconnecting…'}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-brand-500 animate-pulse font-bold">{classroom.connected ? 'Opening a room…' : 'Connecting…'}</p>
+                  )}
+                  <button onClick={stopHosting} className="mt-3 text-sm font-bold text-gray-400 hover:text-red-500">
+                    Stop hosting
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <button
+                    onClick={startHosting}
+                    className="flex-1 py-2 px-3 rounded-xl border-2 border-gray-200 font-bold text-gray-500 hover:bg-gray-50"
+                  >
+                    📡 Host a classroom
+                  </button>
+                  <button
+                    onClick={() => setStudentCode('')}
+                    className="flex-1 py-2 px-3 rounded-xl border-2 border-gray-200 font-bold text-gray-500 hover:bg-gray-50"
+                  >
+                    Join a classroom
+                  </button>
+                </div>
+              )}
            </div>
         </div>
       </div>
@@ -240,7 +789,10 @@ const App: React.FC = () => {
   }
 
   if (status === GameStatus.SERIES_OVER) {
-    const winner = scores.A > scores.B ? 'Team A' : scores.B > scores.A ? 'Team B' : 'Tie';
+    const leaderboard = getLeaderboard(state);
+    const winners = getWinners(state);
+    const isSolo = teams.length === 1;
+    const sessionList = { name: `Session ${new Date().toLocaleDateString()} (${difficulty})`, words: state.sessionWords };
     return (
       <div className="min-h-screen font-sans flex flex-col items-center justify-center bg-gradient-to-br from-brand-50 to-brand-100 p-4">
         <div className="bg-white p-8 md:p-12 rounded-3xl shadow-2xl text-center max-w-2xl w-full border-4 border-white">
@@ -248,26 +800,28 @@ const App: React.FC = () => {
           <h1 className="text-4xl md:text-6xl font-extrabold text-brand-800 mb-2 font-tamil">
             Game Over!
           </h1>
-          <p className="text-xl text-gray-500 mb-8">Tournament Results ({difficulty})</p>
+          <p className="text-xl text-gray-500 mb-8">{isSolo ? 'Your Results' : 'Tournament Results'} ({difficulty})</p>
           
-          <div className="flex justify-center gap-8 mb-10">
-            <div className="text-center">
-              <p className="text-blue-600 font-bold text-lg">Team A</p>
-              <p className="text-5xl font-black text-gray-800">{scores.A}</p>
-            </div>
-            <div className="h-20 w-px bg-gray-200"></div>
-            <div className="text-center">
-              <p className="text-orange-600 font-bold text-lg">Team B</p>
-              <p className="text-5xl font-black text-gray-800">{scores.B}</p>
-            </div>
-          </div>
+          <ol className="max-w-md mx-auto space-y-2 mb-10">
+            {leaderboard.map(({ team, score }, index) => (
+              <li key={team.id} className="flex items-center gap-4 px-4 py-3 rounded-2xl bg-gray-50 border border-gray-100">
+                <span className="text-xl font-black text-gray-300 w-6">{index + 1}</span>
+                <span className={`flex-1 text-left font-bold text-lg ${TEAM_COLOR_STYLES[team.color].label}`}>{team.name}</span>
+                <span className="text-3xl font-black text-gray-800">{score}</span>
+              </li>
+            ))}
+          </ol>
 
           <div className="mb-10">
-             {winner === 'Tie' ? (
-               <div className="text-3xl font-bold text-gray-600">It's a Tie! 🤝</div>
+             {isSolo ? (
+               <div className="text-3xl font-bold text-brand-600">You scored {leaderboard[0].score} points! 🎉</div>
+             ) : winners.length > 1 ? (
+               <div className="text-3xl font-bold text-gray-600">
+                 It's a Tie between {winners.map(team => team.name).join(' & ')}! 🤝
+               </div>
              ) : (
-               <div className={`text-4xl font-bold ${winner === 'Team A' ? 'text-blue-600' : 'text-orange-600'}`}>
-                 {winner} Wins! 🎉
+               <div className={`text-4xl font-bold ${TEAM_COLOR_STYLES[winners[0].color].label}`}>
+                 {winners[0].name} Wins! 🎉
                </div>
              )}
           </div>
@@ -278,6 +832,40 @@ const App: React.FC = () => {
           >
             Start New Match ➜
           </button>
+
+          {/* Round-by-round review */}
+          {state.roundHistory.length > 0 && (
+            <div className="mt-10 pt-6 border-t border-gray-100">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-bold text-gray-600">Words this series</h2>
+                <button
+                  onClick={() => printFlashcards(`${sessionList.name} flashcards`, state.roundHistory)}
+                  className="px-3 py-1.5 rounded-lg border border-gray-200 font-bold text-gray-500 hover:bg-gray-50 text-sm"
+                >
+                  🖨️ Print Flashcards
+                </button>
+              </div>
+              <SeriesReview rounds={state.roundHistory} teams={teams} onPlayAudio={playRoundAudio} />
+            </div>
+          )}
+
+          {/* Share this session's vocabulary */}
+          <div className="mt-8 pt-6 border-t border-gray-100 flex flex-wrap justify-center gap-2 text-sm">
+            <span className="text-gray-400 font-bold self-center">This session's words:</span>
+            <button onClick={() => downloadWordList(sessionList, 'csv')} className="px-3 py-1.5 rounded-lg border border-gray-200 font-bold text-gray-500 hover:bg-gray-50">Export CSV</button>
+            <button onClick={() => downloadWordList(sessionList, 'json')} className="px-3 py-1.5 rounded-lg border border-gray-200 font-bold text-gray-500 hover:bg-gray-50">Export JSON</button>
+            <button
+              onClick={() => {
+                addWordList(createWordList(sessionList.name, sessionList.words)).catch(err => {
+                  console.warn("Couldn't save the word list:", err);
+                  window.alert("The word list couldn't be saved on this device. Free up some storage and try again.");
+                });
+              }}
+              className="px-3 py-1.5 rounded-lg border border-gray-200 font-bold text-gray-500 hover:bg-gray-50"
+            >
+              Save as Word List
+            </button>
+          </div>
         </div>
       </div>
     );
@@ -293,25 +881,30 @@ const App: React.FC = () => {
             தமிழ் <span className="text-accent-pink">Hangman</span>
           </h1>
           <span className="text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-500 font-bold uppercase tracking-wider">{difficulty}</span>
+          {category && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-brand-100 text-brand-700 font-bold uppercase tracking-wider">
+              {WORD_CATEGORIES[category].emoji} {WORD_CATEGORIES[category].label}
+            </span>
+          )}
+          {classroom?.code && (
+            <span
+              className={`text-xs px-2 py-0.5 rounded-full font-bold uppercase tracking-wider ${classroom.connected ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}
+              title={classroom.joinUrls.map(url => `${url}/?join=${classroom.code}`).join('\n')}
+            >
+              📡 {classroom.code} · {classroom.players}
+            </span>
+          )}
         </div>
         
         {/* Scoreboard */}
-        <div className="w-full max-w-lg flex items-center gap-4 bg-white/50 backdrop-blur-sm p-2 rounded-3xl border border-white/60 shadow-sm">
-          <div className={getTeamBadgeStyle('A')}>
-             <span className="font-bold text-blue-700 text-sm md:text-base">TEAM A</span>
-             <span className="text-2xl md:text-3xl font-black text-blue-900">{scores.A}</span>
-          </div>
-          
-          <div className="flex flex-col items-center px-2">
-             <span className="text-xs font-bold text-gray-400 uppercase tracking-widest">VS</span>
-             <span className="text-xs font-medium text-gray-400 mt-1 whitespace-nowrap">Round {roundNumber}/{TOTAL_ROUNDS}</span>
-          </div>
-
-          <div className={getTeamBadgeStyle('B')}>
-             <span className="font-bold text-orange-700 text-sm md:text-base">TEAM B</span>
-             <span className="text-2xl md:text-3xl font-black text-orange-900">{scores.B}</span>
-          </div>
-        </div>
+        <Scoreboard
+          teams={teams}
+          scores={scores}
+          currentTeam={status === GameStatus.PLAYING ? currentTeam : null}
+          roundNumber={roundNumber}
+          settings={state.settings}
+          difficulty={difficulty}
+        />
       </header>
 
       {/* Main Game Area */}
@@ -319,7 +912,7 @@ const App: React.FC = () => {
         
         {/* Turn Indicator Banner - Only show when playing */}
         {status === GameStatus.PLAYING && (
-          <div className={`absolute top-0 left-0 right-0 h-1.5 ${currentTeam === 'A' ? 'bg-blue-500' : 'bg-orange-500'}`} />
+          <div className={`absolute top-0 left-0 right-0 h-1.5 ${teamColors.swatch}`} />
         )}
 
         {/* Left: Hangman & Visuals */}
@@ -327,12 +920,18 @@ const App: React.FC = () => {
             
             {/* Image Grid (The "Visual Clue" + Tricks) */}
             <div className="w-full max-w-sm mb-6">
-               <ImagePanel images={images} status={status} />
+               <ImagePanel
+                  images={images}
+                  status={status}
+                  pickedLabel={pictureGuess?.label}
+                  bonusPoints={state.settings.pictureBonusPoints}
+                  onPick={handlePicturePick}
+               />
             </div>
 
             {/* Hangman Figure */}
             <div className="w-full bg-gray-50 rounded-2xl p-4 border border-gray-100">
-                <HangmanCanvas wrongGuesses={wrongGuesses} maxGuesses={GUESS_LIMITS[difficulty]} />
+                <HangmanCanvas wrongGuesses={wrongGuesses} maxGuesses={getMaxGuesses(state)} theme={state.settings.progressTheme} />
             </div>
 
         </div>
@@ -342,22 +941,30 @@ const App: React.FC = () => {
             
             {/* Turn Announcer */}
             {status === GameStatus.PLAYING && (
-              <div className={`mb-6 text-center py-2 px-4 rounded-full font-bold text-lg animate-pulse inline-block mx-auto border-2 ${getTeamColor(currentTeam)}`}>
-                 It's {currentTeam === 'A' ? 'Team A' : 'Team B'}'s Turn!
+              <div className={`mb-6 text-center py-2 px-4 rounded-full font-bold text-lg animate-pulse inline-block mx-auto border-2 ${teamColors.announcer}`}>
+                 {teams.length === 1 ? 'Your Turn!' : `It's ${activeTeam.name}'s Turn!`}
               </div>
             )}
+            {status === GameStatus.PLAYING && turnSeconds !== null && turnTimeLeft !== null && (
+              <TurnTimer
+                secondsLeft={turnTimeLeft}
+                totalSeconds={turnSeconds}
+                paused={timerPaused}
+                onTogglePause={() => setTimerPaused(paused => !paused)}
+              />
+            )}
 
             {status === GameStatus.ERROR && (
                 <div className="p-4 bg-red-100 text-red-700 rounded-lg text-center mb-4">
                     {errorMsg}
-                    <button onClick={() => loadPuzzle(difficulty)} className="block mx-auto mt-2 px-4 py-2 bg-red-600 text-white rounded-lg">Retry</button>
+                    <button onClick={retryPuzzle} className="block mx-auto mt-2 px-4 py-2 bg-red-600 text-white rounded-lg">Retry</button>
                 </div>
             )}
 
             {status === GameStatus.LOADING && (
                 <div className="text-center py-12">
                    <p className="text-xl text-brand-500 animate-pulse font-bold">Creating {difficulty} Puzzle...</p>
-                   <p className="text-sm text-gray-400 mt-2">Round {roundNumber} - Team {roundStarter} starts</p>
+                   <p className="text-sm text-gray-400 mt-2">Round {roundNumber} - {getTeam(state, roundStarter).name} starts</p>
                 </div>
             )}
 
@@ -368,6 +975,17 @@ const App: React.FC = () => {
                        <span className="bg-brand-50 text-brand-700 px-4 py-2 rounded-xl text-lg font-bold border border-brand-100 shadow-sm">
                           Clue: {wordData?.english}
                        </span>
+                       {status === GameStatus.PLAYING && hasUsedHint(state, 'transliteration') && (
+                         <span className="ml-2 text-gray-500 italic">“{wordData?.transliteration}”</span>
+                       )}
+                       {status === GameStatus.PLAYING && hasUsedHint(state, 'audio') && audioData && (
+                         <button onClick={playAudio} className="ml-2 align-middle" title="Play Pronunciation">🔊</button>
+                       )}
+                       {isReviewWord && (
+                         <span className="ml-2 text-xs px-2 py-1 rounded-full bg-purple-100 text-purple-600 font-bold uppercase tracking-wider align-middle">
+                           🔁 Review
+                         </span>
+                       )}
                     </div>
 
                     {/* The Word Slots */}
@@ -375,16 +993,26 @@ const App: React.FC = () => {
                         wordSegments={wordSegments} 
                         guessedLetters={guessedLetters} 
                         revealAll={status !== GameStatus.PLAYING}
+                        letterFamilyMode={letterFamilyMode}
+                        highlightIndex={speakingIndex}
                     />
 
                     {/* Game Over / Win Messages */}
                     {status === GameStatus.WON && (
                         <div className="text-center mb-6 animate-bounce bg-green-50 p-4 rounded-2xl border border-green-100">
                             <h2 className="text-2xl md:text-3xl font-bold text-green-600 mb-2">
-                              {currentTeam === 'A' ? 'Team A' : 'Team B'} scored a point! 🎉
+                              {activeTeam.name} scored {state.settings.pointsPerWin === 1 ? 'a point' : `${state.settings.pointsPerWin} points`}! 🎉
                             </h2>
                             <div className="flex items-center justify-center gap-2 text-gray-600">
                                 <span>The word was <b>{wordData?.word}</b> ({wordData?.transliteration})</span>
+                                <button
+                                    onClick={playSlowly}
+                                    disabled={speakingIndex !== null}
+                                    className="px-2 py-1 rounded-full bg-green-200 text-green-700 hover:bg-green-300 disabled:opacity-50 transition-colors text-sm font-bold"
+                                    title="Play letter by letter"
+                                >
+                                    🐢 Slow
+                                </button>
                                 {audioData && (
                                     <button 
                                         onClick={playAudio}
@@ -405,6 +1033,14 @@ const App: React.FC = () => {
                             <p className="text-red-400 mb-2">No points awarded this round.</p>
                             <div className="flex items-center justify-center gap-2 text-gray-600">
                                 <span>The word was <b>{wordData?.word}</b> ({wordData?.transliteration})</span>
+                                <button
+                                    onClick={playSlowly}
+                                    disabled={speakingIndex !== null}
+                                    className="px-2 py-1 rounded-full bg-red-200 text-red-700 hover:bg-red-300 disabled:opacity-50 transition-colors text-sm font-bold"
+                                    title="Play letter by letter"
+                                >
+                                    🐢 Slow
+                                </button>
                                 {audioData && (
                                     <button 
                                         onClick={playAudio}
@@ -420,14 +1056,44 @@ const App: React.FC = () => {
                         </div>
                     )}
 
+                    {/* Hints */}
+                    <HintMenu
+                        costs={state.settings.hintCosts}
+                        available={hintAvailability}
+                        hintsUsed={hintsUsed}
+                        teams={teams}
+                        roundOver={status !== GameStatus.PLAYING}
+                        onUseHint={handleUseHint}
+                    />
+
                     {/* Keyboard */}
                     <div className="mt-auto relative z-10">
-                        <Keyboard 
-                            availableLetters={keyboardLetters} 
-                            guessedLetters={guessedLetters} 
-                            onGuess={handleGuess}
-                            disabled={status !== GameStatus.PLAYING}
-                        />
+                        {HAS_PHYSICAL_KEYBOARD && (
+                            <TypedGuessInput
+                                key={roundNumber}
+                                isAvailable={isTypeableLetter}
+                                guessedLetters={usedKeys}
+                                onGuess={handleGuess}
+                                disabled={status !== GameStatus.PLAYING}
+                            />
+                        )}
+                        {useFullKeyboard ? (
+                            <TamilKeyboard
+                                key={roundNumber}
+                                guessedLetters={usedKeys}
+                                onGuess={handleGuess}
+                                disabled={status !== GameStatus.PLAYING}
+                                letterFamilyMode={letterFamilyMode}
+                                extraLetters={extraKeyboardLetters}
+                            />
+                        ) : (
+                            <Keyboard 
+                                availableLetters={keyboardLetters} 
+                                guessedLetters={usedKeys} 
+                                onGuess={handleGuess}
+                                disabled={status !== GameStatus.PLAYING}
+                            />
+                        )}
                     </div>
 
                     {/* Next Button */}
@@ -436,7 +1102,7 @@ const App: React.FC = () => {
                             onClick={handleNextRound}
                             className="mt-8 w-full py-4 bg-brand-500 hover:bg-brand-600 text-white font-bold rounded-xl shadow-lg transition-transform hover:scale-105 active:scale-95 text-xl"
                         >
-                            {roundNumber >= TOTAL_ROUNDS ? "Show Final Results 🏆" : `Start Round ${roundNumber + 1} ➜`}
+                            {isFinalRound(state) ? "Show Final Results 🏆" : `Start Round ${roundNumber + 1} ➜`}
                         </button>
                     )}
                 </>
@@ -446,7 +1112,10 @@ const App: React.FC = () => {
       </main>
 
       <footer className="mt-8 text-gray-400 text-sm text-center">
-         Powered by Gemini AI • Learning Tamil made fun
+         {wordSource === WordSource.GEMINI
+           ? 'Powered by Gemini AI'
+           : wordSource === WordSource.WORD_LIST ? `Playing the word list "${provider?.name}"` : 'Playing from the offline word deck'
+         } • Learning Tamil made fun
       </footer>
     </div>
   );
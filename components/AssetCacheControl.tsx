@@ -0,0 +1,49 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { getAssetCacheStats, clearAssetCache, AssetCacheStats } from '../services/assetCache';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const AssetCacheControl: React.FC = () => {
+  const [stats, setStats] = useState<AssetCacheStats | null>(null);
+  const [clearing, setClearing] = useState(false);
+
+  const refresh = useCallback(() => {
+    getAssetCacheStats()
+      .then(setStats)
+      .catch(() => setStats(null)); // IndexedDB unavailable (e.g. private browsing)
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleClear = async () => {
+    setClearing(true);
+    try {
+      await clearAssetCache();
+    } finally {
+      setClearing(false);
+      refresh();
+    }
+  };
+
+  if (!stats) return null;
+
+  return (
+    <div className="flex items-center justify-between text-sm text-gray-500">
+      <span>
+        Saved pictures &amp; sounds: <b>{stats.count}</b> ({formatBytes(stats.bytes)})
+      </span>
+      <button
+        onClick={handleClear}
+        disabled={clearing || stats.count === 0}
+        className="px-3 py-1 rounded-lg border border-gray-200 font-bold text-gray-500 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        {clearing ? 'Clearing...' : 'Clear'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ContentRejection } from '../types';
+import { loadFilterLists, saveFilterLists, loadRejectionLog, clearRejectionLog } from '../services/contentFilter';
+
+// Most recent rejections listed; the full log stays in storage
+const SHOWN_REJECTIONS = 50;
+
+const SOURCE_LABELS: Record<ContentRejection['source'], string> = {
+  word: 'Word',
+  decoy: 'Decoy',
+  image: 'Picture',
+  audio: 'Sound',
+};
+
+const toText = (terms: string[]) => terms.join('\n');
+const toTerms = (text: string) => text.split(/[\n,]/).map(term => term.trim()).filter(Boolean);
+
+// Teacher controls for the content filter, and a log of what it kept off screen
+export const ContentFilterPanel: React.FC = () => {
+  const [blocked, setBlocked] = useState(() => toText(loadFilterLists().blocked));
+  const [allowed, setAllowed] = useState(() => toText(loadFilterLists().allowed));
+  const [saved, setSaved] = useState(true);
+  const [rejections, setRejections] = useState<ContentRejection[]>(loadRejectionLog);
+
+  const handleSave = () => {
+    saveFilterLists({ blocked: toTerms(blocked), allowed: toTerms(allowed) });
+    setSaved(true);
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500 mb-3">
+        Words, meanings and picture decoys are checked before they reach the screen. A built-in list of unsuitable
+        words is always blocked; add your own below, one per line, in English or Tamil.
+      </p>
+      <div className="grid md:grid-cols-2 gap-4 mb-3">
+        <label className="block">
+          <span className="block text-sm font-bold text-gray-600 mb-1">Also block</span>
+          <textarea
+            value={blocked}
+            onChange={e => { setBlocked(e.target.value); setSaved(false); }}
+            rows={4}
+            placeholder={'ghost\nspider'}
+            className="w-full border-2 border-gray-200 rounded-xl px-3 py-2 text-sm font-tamil focus:border-brand-500 outline-none"
+          />
+        </label>
+        <label className="block">
+          <span className="block text-sm font-bold text-gray-600 mb-1">Always allow</span>
+          <textarea
+            value={allowed}
+            onChange={e => { setAllowed(e.target.value); setSaved(false); }}
+            rows={4}
+            placeholder="wine"
+            className="w-full border-2 border-gray-200 rounded-xl px-3 py-2 text-sm font-tamil focus:border-brand-500 outline-none"
+          />
+        </label>
+      </div>
+      <button
+        onClick={handleSave}
+        disabled={saved}
+        className="px-4 py-2 rounded-xl border-2 border-brand-200 text-brand-600 font-bold hover:bg-brand-50 disabled:opacity-40 text-sm"
+      >
+        {saved ? 'Saved' : 'Save lists'}
+      </button>
+
+      <div className="flex items-center justify-between mt-6 mb-2">
+        <span className="text-sm font-bold text-gray-600">Kept off screen ({rejections.length})</span>
+        <button
+          onClick={() => {
+            clearRejectionLog();
+            setRejections([]);
+          }}
+          disabled={rejections.length === 0}
+          className="px-3 py-1 rounded-lg border border-gray-200 font-bold text-gray-500 hover:bg-gray-50 disabled:opacity-40 text-sm"
+        >
+          Clear
+        </button>
+      </div>
+      {rejections.length === 0 ? (
+        <p className="text-gray-400 text-sm">Nothing has been rejected.</p>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+          {rejections.slice(-SHOWN_REJECTIONS).reverse().map(rejection => (
+            <li key={`${rejection.timestamp}-${rejection.text}`} className="flex gap-2 text-sm">
+              <span className="text-gray-400 whitespace-nowrap">{new Date(rejection.timestamp).toLocaleString()}</span>
+              <span className="font-bold text-gray-500">{SOURCE_LABELS[rejection.source]}</span>
+              <span className="font-tamil text-gray-700">{rejection.text}</span>
+              <span className="text-gray-400 truncate" title={rejection.reason}>{rejection.reason}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { HintType, HintCost, HINT_TYPES, Team } from '../types';
+import { UsedHint } from '../utils/gameEngine';
+
+export const HINT_LABELS: Record<HintType, { icon: string; label: string }> = {
+  audio: { icon: '🔊', label: 'Hear the word' },
+  transliteration: { icon: '🔤', label: 'Show how it sounds' },
+  reveal: { icon: '💡', label: 'Reveal a letter' },
+  eliminate: { icon: '✂️', label: 'Remove 3 wrong keys' },
+};
+
+export const formatHintCost = ({ kind, amount }: HintCost): string => {
+  if (amount === 0) return 'Free';
+  if (kind === 'points') return `−${amount} ${amount === 1 ? 'point' : 'points'}`;
+  return `−${amount} ${amount === 1 ? 'guess' : 'guesses'}`;
+};
+
+interface HintMenuProps {
+  costs: Record<HintType, HintCost>;
+  available: Record<HintType, boolean>;
+  hintsUsed: UsedHint[];
+  teams: Team[];
+  roundOver: boolean; // Show what was used instead of the buttons
+  onUseHint: (hint: HintType) => void;
+}
+
+export const HintMenu: React.FC<HintMenuProps> = ({ costs, available, hintsUsed, teams, roundOver, onUseHint }) => {
+  if (roundOver) {
+    if (hintsUsed.length === 0) return null;
+    const teamName = (id: string) => teams.find(team => team.id === id)?.name ?? id;
+    return (
+      <div className="text-center text-sm text-gray-500 mb-4">
+        <span className="font-bold text-gray-400 uppercase tracking-wider text-xs mr-2">Hints used</span>
+        {hintsUsed.map((used, index) => (
+          <span key={index} className="inline-block mx-1 whitespace-nowrap">
+            {HINT_LABELS[used.type].icon} {teams.length > 1 && `${teamName(used.team)} `}({formatHintCost(used.cost)})
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <details className="mb-4 max-w-lg mx-auto">
+      <summary className="cursor-pointer text-center text-sm font-bold text-brand-600 hover:text-brand-700 select-none">
+        Need a hint?
+      </summary>
+      <div className="grid grid-cols-2 gap-2 mt-2">
+        {HINT_TYPES.map(hint => (
+          <button
+            key={hint}
+            onClick={() => onUseHint(hint)}
+            disabled={!available[hint]}
+            className="p-2 rounded-xl border-2 border-brand-100 bg-white hover:bg-brand-50 disabled:opacity-40 disabled:cursor-not-allowed text-left"
+          >
+            <span className="block font-bold text-gray-700 text-sm">{HINT_LABELS[hint].icon} {HINT_LABELS[hint].label}</span>
+            <span className="block text-xs text-gray-400">{formatHintCost(costs[hint])}</span>
+          </button>
+        ))}
+      </div>
+    </details>
+  );
+};
@@ -4,9 +4,12 @@ import { GameImage, GameStatus } from '../types';
 interface ImagePanelProps {
   images: GameImage[];
   status: GameStatus;
+  pickedLabel?: string | null; // The picture the team chose this round, if any
+  bonusPoints?: number; // Awarded for the matching picture; no bonus is promised at 0
+  onPick?: (label: string) => void;
 }
 
-export const ImagePanel: React.FC<ImagePanelProps> = ({ images, status }) => {
+export const ImagePanel: React.FC<ImagePanelProps> = ({ images, status, pickedLabel = null, bonusPoints = 1, onPick }) => {
   const [shuffledImages, setShuffledImages] = useState<GameImage[]>([]);
 
   useEffect(() => {
@@ -25,30 +28,58 @@ export const ImagePanel: React.FC<ImagePanelProps> = ({ images, status }) => {
     );
   }
 
+  const canPick = !!onPick && status === GameStatus.PLAYING && !pickedLabel;
+  const pickedImage = images.find(img => img.label === pickedLabel);
+  const bonusText = bonusPoints === 1 ? 'bonus point' : 'bonus points';
+
+  const getBorderStyle = (img: GameImage) => {
+    if (status === GameStatus.WON && img.isTarget) return 'border-green-400 ring-4 ring-green-200 z-10 scale-105 transition-all duration-500';
+    if (status === GameStatus.LOST && img.isTarget) return 'border-brand-400 ring-4 ring-brand-200';
+    if (img.label === pickedLabel) return img.isTarget ? 'border-green-400 ring-4 ring-green-200' : 'border-red-400 ring-4 ring-red-200';
+    return 'border-white';
+  };
+
   return (
     <div className="grid grid-cols-3 gap-2 sm:gap-4 mb-4">
-      {shuffledImages.map((img, idx) => (
-        <div 
-          key={idx} 
-          className={`
-            relative group overflow-hidden rounded-xl border-4 shadow-sm bg-white aspect-square
-            ${status === GameStatus.WON && img.isTarget ? 'border-green-400 ring-4 ring-green-200 z-10 scale-105 transition-all duration-500' : 'border-white'}
-            ${status === GameStatus.LOST && img.isTarget ? 'border-brand-400 ring-4 ring-brand-200' : ''}
-            ${(status === GameStatus.WON || status === GameStatus.LOST) && !img.isTarget ? 'opacity-40 grayscale' : ''}
-          `}
-        >
-          <img 
-            src={img.src} 
-            alt={img.label} 
-            className="w-full h-full object-cover"
-          />
-          {/* Helper label could be shown on hover if we wanted to make it easier, but let's keep it hidden for the game */}
-        </div>
-      ))}
+      {shuffledImages.map((img, idx) => {
+        const isPicked = img.label === pickedLabel;
+        return (
+          <button
+            key={idx}
+            type="button"
+            onClick={() => onPick?.(img.label)}
+            disabled={!canPick}
+            className={`
+              relative group overflow-hidden rounded-xl border-4 shadow-sm bg-white aspect-square
+              ${canPick ? 'cursor-pointer hover:scale-105 hover:border-brand-200 transition-transform' : 'cursor-default'}
+              ${getBorderStyle(img)}
+              ${(status === GameStatus.WON || status === GameStatus.LOST) && !img.isTarget ? 'opacity-40 grayscale' : ''}
+            `}
+          >
+            <img 
+              src={img.src} 
+              alt={img.label} 
+              className="w-full h-full object-cover"
+            />
+            {isPicked && (
+              <span className={`absolute top-1 right-1 w-7 h-7 rounded-full flex items-center justify-center text-white font-bold shadow ${img.isTarget ? 'bg-green-500' : 'bg-red-500'}`}>
+                {img.isTarget ? '✓' : '✗'}
+              </span>
+            )}
+            {/* Helper label could be shown on hover if we wanted to make it easier, but let's keep it hidden for the game */}
+          </button>
+        );
+      })}
       <div className="col-span-3 text-center mt-2">
-         <p className="text-sm text-gray-500 italic">
-            Which picture matches the word?
-         </p>
+         {!pickedImage ? (
+           <p className="text-sm text-gray-500 italic">
+              Which picture matches the word?{canPick && bonusPoints > 0 && ` Tap it for ${bonusPoints === 1 ? 'a' : bonusPoints} ${bonusText}!`}
+           </p>
+         ) : pickedImage.isTarget ? (
+           <p className="text-sm font-bold text-green-600">That's the one!{bonusPoints > 0 && ` +${bonusPoints} ${bonusText}! ⭐`}</p>
+         ) : (
+           <p className="text-sm font-bold text-red-500">Not that one — the turn passes.</p>
+         )}
       </div>
     </div>
   );
@@ -1,4 +1,5 @@
 import React from 'react';
+import { moveFocusWithArrows } from '../utils/keyNavigation';
 
 interface KeyboardProps {
   availableLetters: string[];
@@ -9,7 +10,7 @@ interface KeyboardProps {
 
 export const Keyboard: React.FC<KeyboardProps> = ({ availableLetters, guessedLetters, onGuess, disabled }) => {
   return (
-    <div className="grid grid-cols-5 gap-2 sm:gap-3 max-w-lg mx-auto">
+    <div className="grid grid-cols-5 gap-2 sm:gap-3 max-w-lg mx-auto" onKeyDown={moveFocusWithArrows}>
       {availableLetters.map((letter, index) => {
         const isGuessed = guessedLetters.has(letter);
         return (
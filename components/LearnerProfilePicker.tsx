@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { LearnerProfile } from '../types';
+import { getDueRecords } from '../services/learnerProfiles';
+
+interface LearnerProfilePickerProps {
+  profiles: LearnerProfile[];
+  activeProfileId: string | null;
+  onSelect: (id: string | null) => void;
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const LearnerProfilePicker: React.FC<LearnerProfilePickerProps> = ({ profiles, activeProfileId, onSelect, onCreate, onDelete }) => {
+  const [newName, setNewName] = useState('');
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? null;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreate(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="text-left">
+      <div className="flex flex-wrap gap-2 mb-3">
+        <button
+          onClick={() => onSelect(null)}
+          className={`px-3 py-1.5 rounded-full border-2 text-sm font-bold transition-colors ${activeProfileId === null ? 'border-brand-500 bg-brand-50 text-brand-600' : 'border-gray-200 text-gray-400 hover:bg-gray-50'}`}
+        >
+          Guest
+        </button>
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => onSelect(profile.id)}
+            className={`px-3 py-1.5 rounded-full border-2 text-sm font-bold transition-colors ${activeProfileId === profile.id ? 'border-brand-500 bg-brand-50 text-brand-600' : 'border-gray-200 text-gray-400 hover:bg-gray-50'}`}
+          >
+            {profile.name}
+          </button>
+        ))}
+      </div>
+
+      {activeProfile && (
+        <div className="flex items-center justify-between text-sm text-gray-500 mb-3">
+          <span>
+            <b>{Object.keys(activeProfile.words).length}</b> words learned • <b>{getDueRecords(activeProfile).length}</b> due for review
+          </span>
+          <button
+            onClick={() => {
+              if (window.confirm(`Delete ${activeProfile.name}'s word history?`)) onDelete(activeProfile.id);
+            }}
+            className="text-red-400 hover:text-red-600 font-bold"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          placeholder="New learner name"
+          maxLength={30}
+          className="flex-1 px-3 py-2 rounded-xl border-2 border-gray-200 focus:border-brand-500 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="px-4 py-2 rounded-xl bg-brand-500 text-white font-bold disabled:opacity-40"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
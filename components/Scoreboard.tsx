@@ -0,0 +1,42 @@
+import React from 'react';
+import { Team, SeriesSettings, Difficulty } from '../types';
+import { TEAM_COLOR_STYLES } from '../utils/teamColors';
+
+interface ScoreboardProps {
+  teams: Team[];
+  scores: Record<string, number>;
+  currentTeam: string | null; // Highlighted team, or null when nobody is taking a turn
+  roundNumber: number;
+  settings: SeriesSettings;
+  difficulty: Difficulty;
+}
+
+export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, scores, currentTeam, roundNumber, settings, difficulty }) => {
+  const getTeamBadgeStyle = (team: Team) => {
+    const isActive = currentTeam === team.id;
+    const baseStyle = "flex-1 min-w-[5.5rem] p-3 rounded-2xl border-2 transition-all duration-300 flex flex-col items-center justify-center";
+    return `${baseStyle} ${isActive ? `${TEAM_COLOR_STYLES[team.color].activeBadge} transform scale-105 shadow-md` : 'bg-white border-gray-200 opacity-80 grayscale-[0.3]'}`;
+  };
+
+  return (
+    <div className="w-full max-w-2xl flex flex-col items-center gap-2 bg-white/50 backdrop-blur-sm p-2 rounded-3xl border border-white/60 shadow-sm">
+      <div className="flex flex-wrap justify-center gap-x-3 text-xs font-medium text-gray-400 uppercase tracking-widest">
+        <span className="whitespace-nowrap">Round {roundNumber}/{settings.totalRounds}</span>
+        <span className="whitespace-nowrap">• {settings.guessLimits[difficulty]} chances</span>
+        <span className="whitespace-nowrap">• {settings.pointsPerWin} pt per word</span>
+        {!settings.correctGuessKeepsTurn && <span className="whitespace-nowrap">• turns rotate every guess</span>}
+        {settings.turnTimer && <span className="whitespace-nowrap">• {settings.turnSeconds[difficulty]}s turns</span>}
+        {settings.letterFamilyMode && <span className="whitespace-nowrap">• letter families</span>}
+        {settings.fullKeyboard && difficulty !== Difficulty.EASY && <span className="whitespace-nowrap">• full keyboard</span>}
+      </div>
+      <div className="w-full flex flex-wrap justify-center items-center gap-3">
+        {teams.map(team => (
+          <div key={team.id} className={getTeamBadgeStyle(team)}>
+             <span className={`font-bold text-sm md:text-base uppercase truncate max-w-full ${TEAM_COLOR_STYLES[team.color].label}`}>{team.name}</span>
+             <span className={`text-2xl md:text-3xl font-black ${TEAM_COLOR_STYLES[team.color].score}`}>{scores[team.id] ?? 0}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
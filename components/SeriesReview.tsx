@@ -0,0 +1,55 @@
+import React from 'react';
+import { Team } from '../types';
+import { RoundRecord } from '../utils/gameEngine';
+import { TEAM_COLOR_STYLES } from '../utils/teamColors';
+
+interface SeriesReviewProps {
+  rounds: RoundRecord[];
+  teams: Team[];
+  onPlayAudio: (round: RoundRecord) => void;
+}
+
+// Round-by-round recap of the series' vocabulary, shown on the results screen
+export const SeriesReview: React.FC<SeriesReviewProps> = ({ rounds, teams, onPlayAudio }) => {
+  if (rounds.length === 0) return null;
+  const isSolo = teams.length === 1;
+
+  const renderResult = (round: RoundRecord) => {
+    if (!round.solvedBy) return <span className="font-bold text-red-400">Not solved</span>;
+    const team = teams.find(t => t.id === round.solvedBy);
+    if (isSolo || !team) return <span className="font-bold text-green-600">Solved</span>;
+    return <span className={`font-bold ${TEAM_COLOR_STYLES[team.color].label}`}>{team.name} solved it</span>;
+  };
+
+  return (
+    <ul className="text-left space-y-2">
+      {rounds.map(round => (
+        <li key={round.roundNumber} className="flex items-center gap-3 p-2 rounded-2xl bg-gray-50 border border-gray-100">
+          {round.image ? (
+            <img src={round.image.src} alt={round.wordData.english} className="w-16 h-16 rounded-xl object-cover bg-white shrink-0" />
+          ) : (
+            <div className="w-16 h-16 rounded-xl bg-white shrink-0" />
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="font-tamil text-xl font-bold text-brand-800 leading-tight">
+              {round.wordData.word}
+              <span className="ml-2 text-sm font-sans font-normal text-gray-500">{round.wordData.transliteration} · {round.wordData.english}</span>
+            </p>
+            <p className="text-xs text-gray-400">
+              Round {round.roundNumber} · {renderResult(round)} · {round.wrongGuesses}/{round.maxGuesses} wrong
+              {round.hintsUsed.length > 0 && ` · ${round.hintsUsed.length} hint${round.hintsUsed.length === 1 ? '' : 's'}`}
+              {round.isReviewWord && ' · 🔁 review'}
+            </p>
+          </div>
+          <button
+            onClick={() => onPlayAudio(round)}
+            className="p-2 rounded-full bg-brand-100 text-brand-700 hover:bg-brand-200 shrink-0"
+            title="Play Pronunciation"
+          >
+            🔊
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,250 @@
+import React from 'react';
+import { SeriesSettings, Difficulty, DEFAULT_SETTINGS, HINT_TYPES, HintType, HintCost, PLAYBACK_RATES, PROGRESS_THEMES, ProgressTheme } from '../types';
+import { HINT_LABELS } from './HintMenu';
+
+interface SettingsScreenProps {
+  settings: SeriesSettings;
+  onChange: (settings: SeriesSettings) => void;
+  onClose: () => void;
+}
+
+interface StepperProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+const Stepper: React.FC<StepperProps> = ({ label, value, min, max, step = 1, onChange }) => (
+  <div className="flex items-center justify-between py-2">
+    <span className="font-bold text-gray-600">{label}</span>
+    <div className="flex items-center gap-3">
+      <button
+        onClick={() => onChange(Math.max(min, value - step))}
+        disabled={value <= min}
+        className="w-9 h-9 rounded-full border-2 border-gray-200 font-black text-gray-500 hover:bg-gray-50 disabled:opacity-30"
+      >
+        −
+      </button>
+      <span className="w-10 text-center text-xl font-black text-brand-600">{value}</span>
+      <button
+        onClick={() => onChange(Math.min(max, value + step))}
+        disabled={value >= max}
+        className="w-9 h-9 rounded-full border-2 border-gray-200 font-black text-gray-500 hover:bg-gray-50 disabled:opacity-30"
+      >
+        +
+      </button>
+    </div>
+  </div>
+);
+
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  [Difficulty.EASY]: '🌱 Easy',
+  [Difficulty.MEDIUM]: '🌿 Medium',
+  [Difficulty.HARD]: '🌳 Hard',
+};
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, onChange, onClose }) => {
+  const update = (changes: Partial<SeriesSettings>) => onChange({ ...settings, ...changes });
+  const updateHintCost = (hint: HintType, changes: Partial<HintCost>) =>
+    update({ hintCosts: { ...settings.hintCosts, [hint]: { ...settings.hintCosts[hint], ...changes } } });
+
+  return (
+    <div className="min-h-screen font-sans flex flex-col items-center justify-center bg-brand-50 p-4">
+      <div className="bg-white p-8 md:p-10 rounded-3xl shadow-xl max-w-lg w-full border border-gray-200">
+        <h1 className="text-3xl font-extrabold text-brand-600 mb-6 text-center">⚙️ Series Settings</h1>
+
+        <section className="mb-6">
+          <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">Series</p>
+          <Stepper label="Rounds per series" value={settings.totalRounds} min={1} max={20} onChange={totalRounds => update({ totalRounds })} />
+        </section>
+
+        <section className="mb-6 pt-4 border-t border-gray-100">
+          <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">Wrong guesses allowed</p>
+          {Object.values(Difficulty).map(level => (
+            <Stepper
+              key={level}
+              label={DIFFICULTY_LABELS[level]}
+              value={settings.guessLimits[level]}
+              min={3}
+              max={10}
+              onChange={limit => update({ guessLimits: { ...settings.guessLimits, [level]: limit } })}
+            />
+          ))}
+        </section>
+
+        <section className="mb-6 pt-4 border-t border-gray-100">
+          <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">Progress picture</p>
+          <p className="text-sm text-gray-400 mb-2">What changes with each wrong guess</p>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(PROGRESS_THEMES) as ProgressTheme[]).map(theme => (
+              <button
+                key={theme}
+                onClick={() => update({ progressTheme: theme })}
+                className={`px-3 py-1 rounded-full text-sm font-bold border-2 ${settings.progressTheme === theme ? 'bg-brand-500 border-brand-500 text-white' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+              >
+                {PROGRESS_THEMES[theme].emoji} {PROGRESS_THEMES[theme].label}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="mb-6 pt-4 border-t border-gray-100">
+          <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">Turn timer</p>
+          <label className="flex items-center justify-between py-2 cursor-pointer">
+            <span>
+              <span className="block font-bold text-gray-600">Time each turn</span>
+              <span className="block text-sm text-gray-400">The turn passes to the next team when time runs out</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={settings.turnTimer}
+              onChange={e => update({ turnTimer: e.target.checked })}
+              className="w-6 h-6 accent-sky-500"
+            />
+          </label>
+          {settings.turnTimer && (
+            <>
+              {Object.values(Difficulty).map(level => (
+                <Stepper
+                  key={level}
+                  label={`${DIFFICULTY_LABELS[level]} seconds`}
+                  value={settings.turnSeconds[level]}
+                  min={10}
+                  max={120}
+                  step={5}
+                  onChange={seconds => update({ turnSeconds: { ...settings.turnSeconds, [level]: seconds } })}
+                />
+              ))}
+              <label className="flex items-center justify-between py-2 cursor-pointer">
+                <span className="font-bold text-gray-600">Running out of time counts as a wrong guess</span>
+                <input
+                  type="checkbox"
+                  checked={settings.timeoutCountsAsWrong}
+                  onChange={e => update({ timeoutCountsAsWrong: e.target.checked })}
+                  className="w-6 h-6 accent-sky-500"
+                />
+              </label>
+            </>
+          )}
+        </section>
+
+        <section className="mb-6 pt-4 border-t border-gray-100">
+          <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">Letters</p>
+          <label className="flex items-center justify-between py-2 cursor-pointer">
+            <span>
+              <span className="block font-bold text-gray-600">Letter family mode</span>
+              <span className="block text-sm text-gray-400 font-tamil">Guess மெய் and உயிர் separately: க் + ஆ = கா</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={settings.letterFamilyMode}
+              onChange={e => update({ letterFamilyMode: e.target.checked })}
+              className="w-6 h-6 accent-sky-500"
+            />
+          </label>
+          <label className="flex items-center justify-between py-2 cursor-pointer">
+            <span>
+              <span className="block font-bold text-gray-600">Full alphabet keyboard</span>
+              <span className="block text-sm text-gray-400">Medium and Hard show every Tamil letter instead of a small set</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={settings.fullKeyboard}
+              onChange={e => update({ fullKeyboard: e.target.checked })}
+              className="w-6 h-6 accent-sky-500"
+            />
+          </label>
+        </section>
+
+        <section className="mb-6 pt-4 border-t border-gray-100">
+          <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">Audio</p>
+          <label className="flex items-center justify-between py-2 cursor-pointer">
+            <span className="font-bold text-gray-600">Say each letter when it's guessed</span>
+            <input
+              type="checkbox"
+              checked={settings.letterSounds}
+              onChange={e => update({ letterSounds: e.target.checked })}
+              className="w-6 h-6 accent-sky-500"
+            />
+          </label>
+          <div className="flex items-center justify-between py-2">
+            <span className="font-bold text-gray-600">Speaking speed</span>
+            <div className="flex gap-1">
+              {PLAYBACK_RATES.map(rate => (
+                <button
+                  key={rate}
+                  onClick={() => update({ playbackRate: rate })}
+                  className={`px-3 py-1 rounded-full text-sm font-bold border-2 ${settings.playbackRate === rate ? 'bg-brand-500 border-brand-500 text-white' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                >
+                  {rate}×
+                </button>
+              ))}
+            </div>
+          </div>
+        </section>
+
+        <section className="mb-6 pt-4 border-t border-gray-100">
+          <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">Scoring</p>
+          <Stepper label="Points per solved word" value={settings.pointsPerWin} min={1} max={5} onChange={pointsPerWin => update({ pointsPerWin })} />
+          <Stepper label="Bonus for matching picture" value={settings.pictureBonusPoints} min={0} max={3} onChange={pictureBonusPoints => update({ pictureBonusPoints })} />
+          <label className="flex items-center justify-between py-2 cursor-pointer">
+            <span className="font-bold text-gray-600">Correct guess keeps the turn</span>
+            <input
+              type="checkbox"
+              checked={settings.correctGuessKeepsTurn}
+              onChange={e => update({ correctGuessKeepsTurn: e.target.checked })}
+              className="w-6 h-6 accent-sky-500"
+            />
+          </label>
+        </section>
+
+        <section className="mb-8 pt-4 border-t border-gray-100">
+          <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">Hint costs</p>
+          {HINT_TYPES.map(hint => {
+            const cost = settings.hintCosts[hint];
+            return (
+              <div key={hint}>
+                <Stepper
+                  label={`${HINT_LABELS[hint].icon} ${HINT_LABELS[hint].label}`}
+                  value={cost.amount}
+                  min={0}
+                  max={3}
+                  onChange={amount => updateHintCost(hint, { amount })}
+                />
+                <div className="flex justify-end gap-2 -mt-1 mb-1">
+                  {(['points', 'guesses'] as const).map(kind => (
+                    <button
+                      key={kind}
+                      onClick={() => updateHintCost(hint, { kind })}
+                      className={`px-3 py-0.5 rounded-full text-xs font-bold border ${cost.kind === kind ? 'bg-brand-500 border-brand-500 text-white' : 'border-gray-200 text-gray-400 hover:bg-gray-50'}`}
+                    >
+                      {kind}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </section>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => onChange(DEFAULT_SETTINGS)}
+            className="px-5 py-3 rounded-xl border-2 border-gray-200 text-gray-500 font-bold hover:bg-gray-50"
+          >
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 bg-brand-500 hover:bg-brand-600 text-white font-bold rounded-xl shadow-lg transition-transform hover:scale-105"
+          >
+            Done ➜
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
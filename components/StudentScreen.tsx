@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ClassroomBoard, GameStatus, CLASSROOM_TEAM_CHANGE_STATUSES } from '../types';
+import { connectClassroom, getClassroomClientId, ClassroomConnection } from '../services/classroomClient';
+import { TEAM_COLOR_STYLES } from '../utils/teamColors';
+import { WordDisplay } from './WordDisplay';
+import { Keyboard } from './Keyboard';
+import { TamilKeyboard } from './TamilKeyboard';
+import { HangmanCanvas } from './HangmanCanvas';
+
+interface StudentScreenProps {
+  initialCode: string;
+  onLeave: () => void;
+}
+
+// A student's device in classroom mode: shows the teacher's board and sends
+// guesses for the student's team while it is that team's turn
+export const StudentScreen: React.FC<StudentScreenProps> = ({ initialCode, onLeave }) => {
+  const [codeInput, setCodeInput] = useState(initialCode.toUpperCase());
+  const [code, setCode] = useState<string | null>(initialCode ? initialCode.toUpperCase() : null);
+  const [connected, setConnected] = useState(false);
+  const [hostOnline, setHostOnline] = useState(true);
+  const [board, setBoard] = useState<ClassroomBoard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const connectionRef = useRef<ClassroomConnection | null>(null);
+
+  useEffect(() => {
+    if (!code) return;
+    setError(null);
+    let hasJoined = false;
+    const connection = connectClassroom({
+      onOpen: send => send({ type: 'join', code, clientId: getClassroomClientId() }),
+      onMessage: message => {
+        if (message.type === 'joined') {
+          hasJoined = true;
+          setError(null);
+        } else if (message.type === 'team') {
+          setTeamId(message.teamId);
+        } else if (message.type === 'board') {
+          setBoard(message.board);
+        } else if (message.type === 'host-status') {
+          setHostOnline(message.online);
+        } else if (message.type === 'error') {
+          setError(message.message);
+          // A wrong or expired code goes back to the code entry
+          if (!hasJoined) setCode(null);
+        }
+      },
+      onConnectionChange: setConnected,
+    });
+    connectionRef.current = connection;
+    return () => {
+      connection.close();
+      connectionRef.current = null;
+      setBoard(null);
+    };
+  }, [code]);
+
+  // A team that left the match no longer counts as a choice
+  useEffect(() => {
+    if (teamId && board && !board.teams.some(team => team.id === teamId)) setTeamId(null);
+  }, [board, teamId]);
+
+  // The server keeps the team, so a device can only ever guess for the team it picked
+  const pickTeam = (id: string) => connectionRef.current?.send({ type: 'pick-team', teamId: id });
+
+  const handleGuess = (letter: string) => {
+    if (teamId) connectionRef.current?.send({ type: 'guess', letter });
+  };
+
+  const leave = () => {
+    setCode(null);
+    onLeave();
+  };
+
+  if (!code) {
+    return (
+      <div className="min-h-screen font-sans flex flex-col items-center justify-center bg-brand-50 p-4">
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            if (codeInput.trim()) setCode(codeInput.trim().toUpperCase());
+          }}
+          className="bg-white p-8 rounded-3xl shadow-xl text-center max-w-sm w-full border border-gray-200"
+        >
+          <h1 className="text-3xl font-extrabold text-brand-600 mb-2">Join your class</h1>
+          <p className="text-gray-500 mb-6">Type the code shown on the teacher's screen.</p>
+          <input
+            value={codeInput}
+            onChange={e => setCodeInput(e.target.value.toUpperCase())}
+            maxLength={8}
+            autoFocus
+            className="w-full text-center text-4xl font-black tracking-[0.3em] uppercase border-2 border-gray-200 rounded-xl px-3 py-3 mb-4 focus:border-brand-500 outline-none"
+          />
+          {error && <p className="text-red-500 mb-4">{error}</p>}
+          <button
+            type="submit"
+            disabled={!codeInput.trim()}
+            className="w-full py-3 bg-brand-500 hover:bg-brand-600 text-white font-bold rounded-xl shadow-lg disabled:opacity-40"
+          >
+            Join ➜
+          </button>
+          <button type="button" onClick={leave} className="mt-4 text-sm font-bold text-gray-400 hover:text-brand-600">
+            Back to the game
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  const myTeam = board?.teams.find(team => team.id === teamId) ?? null;
+  const isMyTurn = !!board && board.status === GameStatus.PLAYING && board.currentTeam === teamId;
+  const usedKeys = new Set(board?.usedKeys ?? []);
+  const currentTeam = board?.teams.find(team => team.id === board.currentTeam);
+
+  return (
+    <div className="min-h-screen font-sans flex flex-col items-center py-6 px-4 max-w-xl mx-auto">
+      <header className="w-full flex items-center justify-between mb-4">
+        <span className="text-sm font-bold text-gray-400 uppercase tracking-wider">Class {code}</span>
+        <span className={`text-xs px-2 py-0.5 rounded-full font-bold ${connected && hostOnline ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>
+          {!connected ? 'Reconnecting…' : !hostOnline ? "Teacher's screen offline" : 'Connected'}
+        </span>
+      </header>
+
+      {error && <p className="w-full p-3 mb-4 bg-red-50 text-red-600 rounded-xl text-center">{error}</p>}
+
+      {!board ? (
+        <p className="text-xl text-brand-500 animate-pulse font-bold py-12">Waiting for the teacher to start…</p>
+      ) : !myTeam ? (
+        <div className="w-full bg-white rounded-3xl shadow-xl p-6 border border-gray-100 text-center">
+          <p className="text-lg font-bold text-gray-600 mb-4">Which team are you on?</p>
+          <div className="flex flex-col gap-2">
+            {board.teams.map(team => (
+              <button
+                key={team.id}
+                onClick={() => pickTeam(team.id)}
+                className={`py-3 rounded-xl border-2 font-bold text-lg ${TEAM_COLOR_STYLES[team.color].announcer}`}
+              >
+                {team.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <main className="w-full bg-white rounded-3xl shadow-xl p-4 sm:p-6 border border-gray-100 relative overflow-hidden">
+          <div className={`absolute top-0 left-0 right-0 h-1.5 ${TEAM_COLOR_STYLES[myTeam.color].swatch}`} />
+
+          <div className="flex items-center justify-between mb-4 text-sm">
+            <button
+              onClick={() => setTeamId(null)}
+              disabled={!CLASSROOM_TEAM_CHANGE_STATUSES.includes(board.status)}
+              title="Teams can be changed between games"
+              className={`font-bold ${TEAM_COLOR_STYLES[myTeam.color].label}`}
+            >
+              {myTeam.name} · {board.scores[myTeam.id] ?? 0} pts
+            </button>
+            <span className="text-gray-400 font-bold">Round {board.roundNumber}/{board.totalRounds}</span>
+          </div>
+
+          {board.status === GameStatus.LOADING && (
+            <p className="text-center text-brand-500 animate-pulse font-bold py-8">Getting the next word ready…</p>
+          )}
+          {board.status === GameStatus.SERIES_OVER && (
+            <p className="text-center text-2xl font-bold text-brand-600 py-8">Game over! Look at the big screen 🏆</p>
+          )}
+
+          {(board.status === GameStatus.PLAYING || board.status === GameStatus.WON || board.status === GameStatus.LOST) && (
+            <>
+              <div className={`text-center py-2 px-4 rounded-full font-bold border-2 ${
+                isMyTurn
+                  ? TEAM_COLOR_STYLES[myTeam.color].announcer
+                  : 'text-gray-500 bg-gray-50 border-gray-200'
+              }`}>
+                {board.status === GameStatus.WON ? 'Solved! 🎉'
+                  : board.status === GameStatus.LOST ? 'Round over'
+                  : isMyTurn ? 'Your team’s turn!' : `Waiting for ${currentTeam?.name ?? 'the other team'}…`}
+              </div>
+
+              {board.clue && (
+                <p className="text-center mt-4">
+                  <span className="bg-brand-50 text-brand-700 px-4 py-2 rounded-xl font-bold border border-brand-100">
+                    Clue: {board.clue}
+                  </span>
+                </p>
+              )}
+
+              <WordDisplay
+                wordSegments={board.slots.map(slot => slot ?? '')}
+                guessedLetters={new Set(board.slots.filter((slot): slot is string => slot !== null))}
+              />
+
+              <div className="w-40 mx-auto mb-4">
+                <HangmanCanvas wrongGuesses={board.wrongGuesses} maxGuesses={board.maxGuesses} theme={board.progressTheme} />
+              </div>
+
+              {board.fullKeyboard ? (
+                <TamilKeyboard
+                  key={board.roundNumber}
+                  guessedLetters={usedKeys}
+                  onGuess={handleGuess}
+                  disabled={!isMyTurn || !hostOnline}
+                  letterFamilyMode={board.letterFamilyMode}
+                  extraLetters={board.keys}
+                />
+              ) : (
+                <Keyboard
+                  availableLetters={board.keys}
+                  guessedLetters={usedKeys}
+                  onGuess={handleGuess}
+                  disabled={!isMyTurn || !hostOnline}
+                />
+              )}
+            </>
+          )}
+        </main>
+      )}
+
+      <button onClick={leave} className="mt-6 text-sm font-bold text-gray-400 hover:text-brand-600">
+        Leave class
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { UYIR, MEI, GRANTHA_MEI, AYTHAM, combineLetter } from '../utils/tamil';
+import { moveFocusWithArrows } from '../utils/keyNavigation';
+
+interface TamilKeyboardProps {
+  guessedLetters: Set<string>;
+  onGuess: (letter: string) => void;
+  disabled: boolean;
+  letterFamilyMode: boolean; // Mei keys are guesses themselves rather than opening the uyirmei row
+  extraLetters?: string[]; // Letters in the word that the chart cannot build
+}
+
+const keyStyle = (isGuessed: boolean, isSelected = false) => `
+  min-w-[2.5rem] h-11 sm:h-12 px-1
+  rounded-lg shadow-sm border-b-4
+  font-tamil text-lg font-semibold
+  transition-all duration-150 active:scale-95 active:border-b-0 active:translate-y-1
+  ${isGuessed
+    ? 'bg-gray-200 border-gray-300 text-gray-400 cursor-not-allowed'
+    : isSelected
+      ? 'bg-brand-500 border-brand-700 text-white'
+      : 'bg-white border-brand-200 text-brand-800 hover:bg-brand-50 hover:border-brand-300'
+  }
+`;
+
+const RowLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1 font-tamil">{children}</p>
+);
+
+// The whole Tamil alphabet laid out like the classroom chart: uyir, then mei,
+// with the uyirmei row for a consonant opening once it is picked
+export const TamilKeyboard: React.FC<TamilKeyboardProps> = ({ guessedLetters, onGuess, disabled, letterFamilyMode, extraLetters = [] }) => {
+  const [selectedMei, setSelectedMei] = useState<string | null>(null);
+
+  const guess = (letter: string) => {
+    onGuess(letter);
+    setSelectedMei(null);
+  };
+
+  const renderKey = (letter: string) => {
+    const isGuessed = guessedLetters.has(letter);
+    return (
+      <button
+        key={letter}
+        onClick={() => guess(letter)}
+        disabled={disabled || isGuessed}
+        className={keyStyle(isGuessed)}
+      >
+        {letter}
+      </button>
+    );
+  };
+
+  const renderMeiKey = (mei: string) => {
+    if (letterFamilyMode) return renderKey(mei);
+    const isSelected = selectedMei === mei;
+    return (
+      <button
+        key={mei}
+        onClick={() => setSelectedMei(isSelected ? null : mei)}
+        disabled={disabled}
+        aria-expanded={isSelected}
+        className={keyStyle(false, isSelected)}
+      >
+        {mei}
+      </button>
+    );
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-3" onKeyDown={moveFocusWithArrows}>
+      <div>
+        <RowLabel>உயிர் · Vowels</RowLabel>
+        <div className="flex flex-wrap justify-center gap-1.5">
+          {[...UYIR, AYTHAM].map(renderKey)}
+        </div>
+      </div>
+
+      <div>
+        <RowLabel>மெய் · Consonants</RowLabel>
+        <div className="flex flex-wrap justify-center gap-1.5">
+          {[...MEI, ...GRANTHA_MEI].map(renderMeiKey)}
+        </div>
+      </div>
+
+      {selectedMei && !letterFamilyMode && (
+        <div className="p-2 rounded-xl bg-brand-50 border border-brand-100">
+          <RowLabel>உயிர்மெய் · {selectedMei} +</RowLabel>
+          <div className="flex flex-wrap justify-center gap-1.5">
+            {renderKey(selectedMei)}
+            {UYIR.map(uyir => renderKey(combineLetter(selectedMei, uyir)))}
+          </div>
+        </div>
+      )}
+
+      {extraLetters.length > 0 && (
+        <div>
+          <RowLabel>Other letters</RowLabel>
+          <div className="flex flex-wrap justify-center gap-1.5">
+            {extraLetters.map(renderKey)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
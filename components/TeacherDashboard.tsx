@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { Difficulty, GuessEvent, RoundEvent } from '../types';
+import { UYIR, MEI, GRANTHA_MEI, AYTHAM, combineLetter } from '../utils/tamil';
+import {
+  getLetterStats, getMostFailedWords, getDailyAverages, downloadGuessLog, LetterStats,
+} from '../services/guessAnalytics';
+import { ContentFilterPanel } from './ContentFilterPanel';
+
+interface TeacherDashboardProps {
+  guesses: GuessEvent[];
+  rounds: RoundEvent[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Fewer guesses than this and a letter's miss rate is shown faintly
+const MIN_GUESSES_FOR_RATE = 3;
+
+const heatStyle = (stats: LetterStats | undefined): string => {
+  if (!stats) return 'bg-gray-50 text-gray-300';
+  const rate = stats.misses / stats.guesses;
+  const faint = stats.guesses < MIN_GUESSES_FOR_RATE ? 'opacity-60' : '';
+  if (rate >= 0.75) return `bg-red-400 text-white ${faint}`;
+  if (rate >= 0.5) return `bg-orange-300 text-orange-900 ${faint}`;
+  if (rate >= 0.25) return `bg-yellow-200 text-yellow-900 ${faint}`;
+  return `bg-green-100 text-green-800 ${faint}`;
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-2">{children}</p>
+);
+
+export const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ guesses, rounds, onClear, onClose }) => {
+  const [learner, setLearner] = useState<string>(''); // '' is everyone
+
+  const learners = useMemo(
+    () => Array.from(new Set(guesses.map(event => event.learner).filter((name): name is string => !!name))),
+    [guesses]
+  );
+  const filtered = useMemo(() => learner ? guesses.filter(event => event.learner === learner) : guesses, [guesses, learner]);
+  const letterStats = useMemo(() => getLetterStats(filtered), [filtered]);
+  const failedWords = useMemo(() => getMostFailedWords(rounds), [rounds]);
+  const dailyAverages = useMemo(() => getDailyAverages(rounds).slice(-14), [rounds]);
+
+  const renderCell = (letter: string) => {
+    const stats = letterStats.get(letter);
+    const title = stats ? `${letter}: ${stats.misses} of ${stats.guesses} guesses wrong` : `${letter}: not guessed yet`;
+    return (
+      <td key={letter} title={title} className={`w-9 h-9 text-center font-tamil text-base border border-white ${heatStyle(stats)}`}>
+        {letter}
+      </td>
+    );
+  };
+
+  return (
+    <div className="min-h-screen font-sans flex flex-col items-center bg-brand-50 p-4">
+      <div className="bg-white p-6 md:p-10 rounded-3xl shadow-xl max-w-4xl w-full border border-gray-200">
+        <h1 className="text-3xl font-extrabold text-brand-600 mb-2 text-center">📊 Class Analytics</h1>
+        <p className="text-center text-gray-400 mb-6">
+          {guesses.length} guesses over {rounds.length} rounds, saved on this device
+        </p>
+
+        <section className="mb-8">
+          <div className="flex items-center justify-between mb-2">
+            <SectionTitle>Letters guessed wrong most</SectionTitle>
+            {learners.length > 0 && (
+              <select
+                value={learner}
+                onChange={e => setLearner(e.target.value)}
+                className="text-sm border-2 border-gray-200 rounded-lg px-2 py-1 text-gray-600"
+              >
+                <option value="">Everyone</option>
+                {learners.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            )}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="border-collapse mx-auto">
+              <tbody>
+                <tr>
+                  <td />
+                  {[...UYIR, AYTHAM].map(renderCell)}
+                </tr>
+                {[...MEI, ...GRANTHA_MEI].map(mei => (
+                  <tr key={mei}>
+                    {renderCell(mei)}
+                    {UYIR.map(uyir => renderCell(combineLetter(mei, uyir)))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-wrap justify-center gap-3 mt-3 text-xs text-gray-500">
+            <span><span className="inline-block w-3 h-3 align-middle bg-green-100 mr-1" />under 25% wrong</span>
+            <span><span className="inline-block w-3 h-3 align-middle bg-yellow-200 mr-1" />25–50%</span>
+            <span><span className="inline-block w-3 h-3 align-middle bg-orange-300 mr-1" />50–75%</span>
+            <span><span className="inline-block w-3 h-3 align-middle bg-red-400 mr-1" />75%+</span>
+            <span className="text-gray-400">faded: fewer than {MIN_GUESSES_FOR_RATE} guesses</span>
+          </div>
+        </section>
+
+        <div className="grid md:grid-cols-2 gap-8 mb-8">
+          <section>
+            <SectionTitle>Most failed words</SectionTitle>
+            {failedWords.length === 0 ? (
+              <p className="text-gray-400 text-sm">No failed rounds yet.</p>
+            ) : (
+              <ol className="space-y-1">
+                {failedWords.map(entry => (
+                  <li key={entry.word} className="flex justify-between gap-2 text-sm">
+                    <span><b className="font-tamil text-base">{entry.word}</b> <span className="text-gray-400">{entry.english}</span></span>
+                    <span className="text-red-500 font-bold whitespace-nowrap">{entry.failed} of {entry.played} failed</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+
+          <section>
+            <SectionTitle>Average wrong guesses per round</SectionTitle>
+            {dailyAverages.length === 0 ? (
+              <p className="text-gray-400 text-sm">No rounds played yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 text-left">
+                    <th className="font-bold">Day</th>
+                    {Object.values(Difficulty).map(level => <th key={level} className="font-bold text-right">{level}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {dailyAverages.map(({ date, averages }) => (
+                    <tr key={date} className="border-t border-gray-100">
+                      <td className="py-1 text-gray-600">{date}</td>
+                      {Object.values(Difficulty).map(level => (
+                        <td key={level} className="py-1 text-right font-bold text-gray-700">
+                          {averages[level] === undefined ? '–' : averages[level]!.toFixed(1)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+
+        <section className="mb-8">
+          <SectionTitle>Content filter</SectionTitle>
+          <ContentFilterPanel />
+        </section>
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => downloadGuessLog(guesses)}
+            disabled={guesses.length === 0}
+            className="px-5 py-3 rounded-xl border-2 border-gray-200 text-gray-500 font-bold hover:bg-gray-50 disabled:opacity-40"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm('Delete all logged guesses and rounds from this device?')) onClear();
+            }}
+            disabled={guesses.length === 0 && rounds.length === 0}
+            className="px-5 py-3 rounded-xl border-2 border-red-100 text-red-400 font-bold hover:bg-red-50 disabled:opacity-40"
+          >
+            Clear Data
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 bg-brand-500 hover:bg-brand-600 text-white font-bold rounded-xl shadow-lg transition-transform hover:scale-105"
+          >
+            Done ➜
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Team, TEAM_COLORS, MAX_TEAMS } from '../types';
+import { TEAM_COLOR_STYLES } from '../utils/teamColors';
+
+interface TeamSetupProps {
+  teams: Team[];
+  onChange: (teams: Team[]) => void;
+}
+
+const SOLO_PLAYER: Team = { id: 'solo', name: 'Player', color: 'blue' };
+
+// The first of "Team A", "Team B"... not already taken, so removing a team can't cause a repeat
+const nextTeamName = (teams: Team[]): string => {
+  const names = new Set(teams.map(team => team.name));
+  for (let code = 65; ; code++) {
+    const name = `Team ${String.fromCharCode(code)}`;
+    if (!names.has(name)) return name;
+  }
+};
+
+const createTeam = (teams: Team[]): Team => {
+  const color = TEAM_COLORS.find(c => !teams.some(team => team.color === c)) ?? TEAM_COLORS[0];
+  return {
+    id: Math.random().toString(36).slice(2, 8),
+    name: nextTeamName(teams),
+    color,
+  };
+};
+
+export const TeamSetup: React.FC<TeamSetupProps> = ({ teams, onChange }) => {
+  const isSolo = teams.length === 1;
+
+  const updateTeam = (id: string, changes: Partial<Team>) => {
+    onChange(teams.map(team => team.id === id ? { ...team, ...changes } : team));
+  };
+
+  const switchToTeams = () => {
+    const first = createTeam([]);
+    onChange([first, createTeam([first])]);
+  };
+
+  return (
+    <div className="text-left">
+      <div className="flex gap-2 mb-4">
+        <button
+          onClick={() => onChange([SOLO_PLAYER])}
+          className={`flex-1 py-2 px-3 rounded-xl border-2 font-bold transition-colors ${isSolo ? 'border-brand-500 bg-brand-50 text-brand-600' : 'border-gray-200 bg-white text-gray-400 hover:bg-gray-50'}`}
+        >
+          🧒 Solo
+        </button>
+        <button
+          onClick={() => { if (isSolo) switchToTeams(); }}
+          className={`flex-1 py-2 px-3 rounded-xl border-2 font-bold transition-colors ${!isSolo ? 'border-brand-500 bg-brand-50 text-brand-600' : 'border-gray-200 bg-white text-gray-400 hover:bg-gray-50'}`}
+        >
+          👥 Teams
+        </button>
+      </div>
+
+      {!isSolo && (
+        <div className="space-y-2">
+          {teams.map(team => (
+            <div key={team.id} className="flex items-center gap-2">
+              <input
+                value={team.name}
+                onChange={e => updateTeam(team.id, { name: e.target.value })}
+                maxLength={20}
+                className="flex-1 min-w-0 px-3 py-1.5 rounded-xl border-2 border-gray-200 focus:border-brand-500 outline-none font-bold text-gray-700"
+              />
+              <div className="flex gap-1">
+                {TEAM_COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => updateTeam(team.id, { color })}
+                    title={color}
+                    className={`w-5 h-5 rounded-full ${TEAM_COLOR_STYLES[color].swatch} ${team.color === color ? 'ring-2 ring-offset-1 ring-gray-500' : 'opacity-60 hover:opacity-100'}`}
+                  />
+                ))}
+              </div>
+              <button
+                onClick={() => onChange(teams.filter(t => t.id !== team.id))}
+                disabled={teams.length <= 2}
+                className="px-2 text-gray-400 hover:text-red-500 disabled:opacity-20 disabled:cursor-not-allowed font-bold"
+                title="Remove team"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {teams.length < MAX_TEAMS && (
+            <button
+              onClick={() => onChange([...teams, createTeam(teams)])}
+              className="w-full py-1.5 rounded-xl border-2 border-dashed border-gray-200 text-gray-400 font-bold hover:bg-gray-50"
+            >
+              + Add Team
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface TurnTimerProps {
+  secondsLeft: number;
+  totalSeconds: number;
+  paused: boolean;
+  onTogglePause: () => void;
+}
+
+// Seconds left at which the countdown turns red
+const WARNING_SECONDS = 5;
+
+export const TurnTimer: React.FC<TurnTimerProps> = ({ secondsLeft, totalSeconds, paused, onTogglePause }) => {
+  const isLow = secondsLeft <= WARNING_SECONDS;
+  return (
+    <div className="flex items-center gap-3 max-w-xs w-full mx-auto mb-6">
+      <div className="flex-1 h-3 rounded-full bg-gray-100 overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-1000 ease-linear ${isLow ? 'bg-red-500' : 'bg-brand-400'}`}
+          style={{ width: `${(secondsLeft / totalSeconds) * 100}%` }}
+        />
+      </div>
+      <span className={`w-10 text-right font-black tabular-nums ${isLow ? 'text-red-500 animate-pulse' : 'text-gray-600'}`}>
+        {secondsLeft}s
+      </span>
+      <button
+        onClick={onTogglePause}
+        className="w-9 h-9 rounded-full border-2 border-gray-200 text-gray-500 hover:bg-gray-50"
+        title={paused ? 'Resume the timer' : 'Pause the timer'}
+      >
+        {paused ? '▶' : '⏸'}
+      </button>
+    </div>
+  );
+};
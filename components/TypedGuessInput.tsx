@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { fromRoman, TYPING_HINTS } from '../utils/transliteration';
+import { isSingleGrapheme } from '../utils/tamil';
+
+interface TypedGuessInputProps {
+  isAvailable: (letter: string) => boolean; // Whether the letter is on the current keyboard
+  guessedLetters: Set<string>;
+  onGuess: (letter: string) => void;
+  disabled: boolean;
+}
+
+// Lets laptop players type a guess in romanization ("kaa" → கா) and press Enter
+export const TypedGuessInput: React.FC<TypedGuessInputProps> = ({ isAvailable, guessedLetters, onGuess, disabled }) => {
+  const [typed, setTyped] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = typed ? fromRoman(typed) : null;
+
+  const getProblem = (letter: string | null): string | null => {
+    if (!letter) return `"${typed}" isn't a Tamil letter`;
+    if (!isSingleGrapheme(letter)) return 'Type one letter at a time';
+    if (guessedLetters.has(letter)) return `${letter} was already guessed`;
+    if (!isAvailable(letter)) return `${letter} isn't on the keyboard`;
+    return null;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!typed) return;
+    const problem = getProblem(preview);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onGuess(preview!);
+    setTyped('');
+    setError(null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-lg mx-auto mb-4">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={typed}
+          onChange={e => {
+            setTyped(e.target.value.replace(/\s/g, ''));
+            setError(null);
+          }}
+          disabled={disabled}
+          autoFocus
+          autoComplete="off"
+          autoCapitalize="off"
+          spellCheck={false}
+          placeholder="Type a letter, e.g. kaa"
+          aria-label="Type a letter in English letters"
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl border-2 border-gray-200 focus:border-brand-400 focus:outline-none font-mono disabled:bg-gray-100"
+        />
+        <span
+          aria-live="polite"
+          className={`w-14 h-11 flex items-center justify-center rounded-xl border-2 font-tamil text-2xl font-bold ${preview ? 'border-brand-300 bg-brand-50 text-brand-800' : 'border-dashed border-gray-200 text-gray-300'}`}
+        >
+          {preview || '?'}
+        </span>
+        <button
+          type="submit"
+          disabled={disabled || !typed}
+          className="px-4 py-2 rounded-xl bg-brand-500 hover:bg-brand-600 disabled:bg-gray-300 text-white font-bold"
+        >
+          Enter
+        </button>
+      </div>
+      <p className={`text-xs mt-1 ${error ? 'text-red-500 font-bold' : 'text-gray-400 font-tamil'}`}>
+        {error ?? TYPING_HINTS}
+      </p>
+    </form>
+  );
+};
@@ -1,17 +1,31 @@
 import React from 'react';
+import { isSlotRevealed } from '../utils/gameEngine';
+import { decomposeLetter, VOWEL_SIGNS, UYIR } from '../utils/tamil';
 
 interface WordDisplayProps {
   wordSegments: string[];
   guessedLetters: Set<string>;
   revealAll?: boolean;
+  letterFamilyMode?: boolean; // Slots fill in mei and uyir separately
+  highlightIndex?: number | null; // Slot being spoken during a slow replay
 }
 
-export const WordDisplay: React.FC<WordDisplayProps> = ({ wordSegments, guessedLetters, revealAll = false }) => {
+// What a half-guessed slot shows in letter-family mode: the mei (க்) once the
+// consonant is known, or the vowel sign on a placeholder (◌ா) once the uyir is
+const getPartialLetter = (segment: string, guessedLetters: Set<string>): string | null => {
+  const { mei, uyir } = decomposeLetter(segment);
+  if (mei && guessedLetters.has(mei)) return mei;
+  if (uyir && guessedLetters.has(uyir)) return `◌${VOWEL_SIGNS[UYIR.indexOf(uyir)]}`;
+  return null;
+};
+
+export const WordDisplay: React.FC<WordDisplayProps> = ({ wordSegments, guessedLetters, revealAll = false, letterFamilyMode = false, highlightIndex = null }) => {
   return (
     <div className="flex flex-wrap justify-center gap-2 my-6">
       {wordSegments.map((segment, index) => {
-        const isGuessed = guessedLetters.has(segment);
+        const isGuessed = isSlotRevealed(segment, guessedLetters, letterFamilyMode);
         const show = isGuessed || revealAll;
+        const partial = !show && letterFamilyMode ? getPartialLetter(segment, guessedLetters) : null;
 
         return (
           <div
@@ -21,15 +35,18 @@ export const WordDisplay: React.FC<WordDisplayProps> = ({ wordSegments, guessedL
               border-b-4 
               flex items-center justify-center 
               text-2xl sm:text-4xl font-bold font-tamil
-              transition-colors duration-300
+              transition-all duration-300
               ${show 
                 ? 'border-brand-500 text-brand-900 bg-brand-50 rounded-t-lg' 
-                : 'border-gray-300 text-transparent bg-gray-50'
+                : partial
+                  ? 'border-brand-200 text-brand-300 bg-brand-50/50 rounded-t-lg'
+                  : 'border-gray-300 text-transparent bg-gray-50'
               }
               ${revealAll && !isGuessed ? 'text-red-500' : ''}
+              ${highlightIndex === index ? 'ring-4 ring-yellow-300 scale-110' : ''}
             `}
           >
-            {segment}
+            {partial ?? segment}
           </div>
         );
       })}
@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { WordList } from '../types';
+import { importWordList, downloadWordList } from '../services/wordLists';
+
+interface WordListManagerProps {
+  lists: WordList[];
+  activeListId: string | null;
+  onSelect: (id: string) => void;
+  onImport: (list: WordList) => Promise<void>; // Rejects when the list could not be stored
+  onDelete: (id: string) => void;
+}
+
+export const WordListManager: React.FC<WordListManagerProps> = ({ lists, activeListId, onSelect, onImport, onDelete }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file after fixing it
+    if (!file) return;
+
+    const { list, errors } = importWordList(file.name, await file.text());
+    setImportErrors(errors);
+    setSaveError(null);
+    if (!list) return;
+    try {
+      await onImport(list);
+    } catch (error) {
+      console.warn(`Couldn't save the word list ${list.name}:`, error);
+      setSaveError(`"${list.name}" couldn't be saved on this device, probably because its pictures need more storage than is free. Try smaller pictures or picture links.`);
+    }
+  };
+
+  return (
+    <div className="text-left">
+      {lists.length === 0 && (
+        <p className="text-sm text-gray-400 mb-3">
+          Import a CSV or JSON file with columns <b>word</b> (Tamil), <b>english</b>, and optionally <b>transliteration</b> and <b>image</b>.
+        </p>
+      )}
+
+      <div className="space-y-2 mb-3">
+        {lists.map(list => (
+          <div
+            key={list.id}
+            className={`flex items-center gap-2 p-2 rounded-xl border-2 ${activeListId === list.id ? 'border-brand-500 bg-brand-50' : 'border-gray-200'}`}
+          >
+            <button onClick={() => onSelect(list.id)} className="flex-1 min-w-0 text-left">
+              <span className="block font-bold text-gray-700 truncate">{list.name}</span>
+              <span className="text-xs text-gray-400">{list.words.length} words</span>
+            </button>
+            <button onClick={() => downloadWordList(list, 'csv')} className="text-xs font-bold text-gray-400 hover:text-brand-600">CSV</button>
+            <button onClick={() => downloadWordList(list, 'json')} className="text-xs font-bold text-gray-400 hover:text-brand-600">JSON</button>
+            <button
+              onClick={() => {
+                if (window.confirm(`Delete the list "${list.name}"?`)) onDelete(list.id);
+              }}
+              className="px-1 text-gray-400 hover:text-red-500 font-bold"
+              title="Delete list"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full py-2 rounded-xl border-2 border-dashed border-gray-200 text-gray-500 font-bold hover:bg-gray-50"
+      >
+        📥 Import Word List
+      </button>
+
+      {saveError && (
+        <p className="mt-3 p-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-700">{saveError}</p>
+      )}
+
+      {importErrors.length > 0 && (
+        <div className="mt-3 p-3 rounded-xl bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+          <p className="font-bold mb-1">Some rows were skipped:</p>
+          <ul className="list-disc pl-5 max-h-24 overflow-y-auto">
+            {importErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
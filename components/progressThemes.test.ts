@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { getStagesReached } from './progressThemes';
+
+describe('getStagesReached', () => {
+  it('advances a stage on every wrong guess when there are enough stages', () => {
+    for (let max = 1; max <= 8; max++) {
+      const reached = Array.from({ length: max + 1 }, (_, wrong) => getStagesReached(wrong, max, 8));
+      expect(reached[0]).toBe(0);
+      expect(reached[max]).toBe(8);
+      reached.slice(1).forEach((stage, i) => expect(stage).toBeGreaterThan(reached[i]));
+    }
+  });
+
+  it('never goes backwards or past the last stage with more guesses than stages', () => {
+    const reached = Array.from({ length: 11 }, (_, wrong) => getStagesReached(wrong, 10, 8));
+    expect(reached[1]).toBe(1);
+    expect(reached[10]).toBe(8);
+    reached.slice(1).forEach((stage, i) => expect(stage).toBeGreaterThanOrEqual(reached[i]));
+  });
+});
@@ -0,0 +1,188 @@
+import React from 'react';
+import { ProgressTheme } from '../types';
+
+// How a stage changes once it is reached: parts of the hangman appear, while
+// the other themes lose something. The keyframes live in index.html.
+type StageEffect = 'appear' | 'pop' | 'fall' | 'melt';
+
+interface ProgressStage {
+  step: number; // 1 is the first stage reached; array order is paint order
+  effect: StageEffect;
+  node: React.ReactNode;
+}
+
+export interface ProgressDrawing {
+  background: React.ReactNode;
+  stages: ProgressStage[];
+  foreground?: React.ReactNode;
+}
+
+export const STAGE_EFFECT_CLASSES: Record<StageEffect, string> = {
+  appear: 'progress-stage progress-appear',
+  pop: 'progress-stage progress-pop',
+  fall: 'progress-stage progress-fall',
+  melt: 'progress-stage progress-melt',
+};
+
+// Stages reached after `wrongGuesses`, spread evenly over however many guesses
+// are allowed: the first wrong guess always shows a change and the last one
+// always completes the picture. With more guesses than stages some guesses
+// share a stage, so HangmanCanvas also marks every guess below the picture.
+export const getStagesReached = (wrongGuesses: number, maxGuesses: number, stageCount: number): number => {
+  if (wrongGuesses <= 0 || maxGuesses <= 0) return 0;
+  return Math.min(stageCount, Math.max(1, Math.round((wrongGuesses * stageCount) / maxGuesses)));
+};
+
+const INK = '#475569'; // Slate-600
+const line = { stroke: INK, strokeWidth: 4, strokeLinecap: 'round' as const };
+
+const hangman: ProgressDrawing = {
+  background: (
+    <>
+      {/* Base, pole, top bar and rope */}
+      <line x1="20" y1="230" x2="180" y2="230" {...line} />
+      <line x1="100" y1="230" x2="100" y2="20" {...line} />
+      <line x1="100" y1="20" x2="160" y2="20" {...line} />
+      <line x1="160" y1="20" x2="160" y2="50" stroke={INK} strokeWidth={4} />
+    </>
+  ),
+  stages: [
+    { step: 1, effect: 'appear', node: <circle cx="160" cy="70" r="20" stroke={INK} strokeWidth={4} fill="transparent" /> },
+    { step: 2, effect: 'appear', node: <line x1="160" y1="90" x2="160" y2="150" {...line} /> },
+    { step: 3, effect: 'appear', node: <line x1="160" y1="100" x2="130" y2="130" {...line} /> },
+    { step: 4, effect: 'appear', node: <line x1="160" y1="100" x2="190" y2="130" {...line} /> },
+    { step: 5, effect: 'appear', node: <line x1="160" y1="150" x2="140" y2="190" {...line} /> },
+    { step: 6, effect: 'appear', node: <line x1="160" y1="150" x2="180" y2="190" {...line} /> },
+    {
+      step: 7,
+      effect: 'appear',
+      node: <path d="M152 65 L156 69 M156 65 L152 69" stroke={INK} strokeWidth={3} strokeLinecap="round" />,
+    },
+    {
+      step: 8,
+      effect: 'appear',
+      node: <path d="M164 65 L168 69 M168 65 L164 69" stroke={INK} strokeWidth={3} strokeLinecap="round" />,
+    },
+  ],
+};
+
+const BALLOONS = [
+  { cx: 50, cy: 62, color: '#f87171' },
+  { cx: 85, cy: 44, color: '#fb923c' },
+  { cx: 120, cy: 44, color: '#facc15' },
+  { cx: 155, cy: 62, color: '#4ade80' },
+  { cx: 65, cy: 104, color: '#38bdf8' },
+  { cx: 100, cy: 86, color: '#818cf8' },
+  { cx: 135, cy: 104, color: '#c084fc' },
+  { cx: 100, cy: 128, color: '#f472b6' },
+];
+
+const balloons: ProgressDrawing = {
+  background: (
+    <>
+      <line x1="20" y1="230" x2="180" y2="230" {...line} />
+      {/* Ribbon the bunch is tied to */}
+      <path d="M100 200 C 92 212, 108 220, 100 230" stroke={INK} strokeWidth={2} fill="none" />
+    </>
+  ),
+  stages: BALLOONS.map((balloon, index) => ({
+    step: index + 1,
+    effect: 'pop' as const,
+    node: (
+      <g>
+        <line x1={balloon.cx} y1={balloon.cy + 21} x2="100" y2="200" stroke="#94a3b8" strokeWidth={1.5} />
+        <ellipse cx={balloon.cx} cy={balloon.cy} rx="17" ry="21" fill={balloon.color} stroke={INK} strokeWidth={2} />
+        <ellipse cx={balloon.cx - 6} cy={balloon.cy - 8} rx="4" ry="6" fill="white" opacity="0.5" />
+        <path d={`M${balloon.cx - 3} ${balloon.cy + 24} L${balloon.cx} ${balloon.cy + 20} L${balloon.cx + 3} ${balloon.cy + 24} Z`} fill={balloon.color} />
+      </g>
+    ),
+  })),
+  foreground: <circle cx="100" cy="200" r="4" fill={INK} />,
+};
+
+const PETAL_ANGLES = [0, 45, 90, 135, 180, 225, 270, 315];
+
+const flower: ProgressDrawing = {
+  background: (
+    <>
+      <line x1="100" y1="100" x2="100" y2="215" stroke="#16a34a" strokeWidth={6} strokeLinecap="round" />
+      <ellipse cx="82" cy="180" rx="18" ry="8" fill="#4ade80" transform="rotate(-30 82 180)" />
+      <ellipse cx="118" cy="160" rx="18" ry="8" fill="#4ade80" transform="rotate(30 118 160)" />
+      {/* Pot */}
+      <path d="M68 212 L132 212 L124 238 L76 238 Z" fill="#ea580c" stroke={INK} strokeWidth={2} />
+    </>
+  ),
+  // The wrapping <g> carries the falling animation so each petal keeps its own rotation
+  stages: PETAL_ANGLES.map((angle, index) => ({
+    step: index + 1,
+    effect: 'fall' as const,
+    node: (
+      <g>
+        <ellipse cx="100" cy="56" rx="12" ry="24" fill="#f9a8d4" stroke="#ec4899" strokeWidth={2} transform={`rotate(${angle} 100 90)`} />
+      </g>
+    ),
+  })),
+  foreground: <circle cx="100" cy="90" r="16" fill="#facc15" stroke="#a16207" strokeWidth={2} />,
+};
+
+const snowball = { fill: 'white', stroke: INK, strokeWidth: 3 };
+
+const snowman: ProgressDrawing = {
+  background: (
+    <>
+      <ellipse cx="100" cy="230" rx="70" ry="7" fill="#bae6fd" />
+      <circle cx="100" cy="192" r="36" {...snowball} />
+    </>
+  ),
+  stages: [
+    { step: 2, effect: 'fall', node: <path d="M76 132 L44 108 M54 116 L48 104" {...line} stroke="#92400e" strokeWidth={3} /> },
+    { step: 3, effect: 'fall', node: <path d="M124 132 L156 108 M146 116 L152 104" {...line} stroke="#92400e" strokeWidth={3} /> },
+    { step: 8, effect: 'melt', node: <circle cx="100" cy="134" r="27" {...snowball} /> },
+    {
+      step: 6,
+      effect: 'fall',
+      node: (
+        <g fill={INK}>
+          <circle cx="100" cy="124" r="3" />
+          <circle cx="100" cy="136" r="3" />
+          <circle cx="100" cy="148" r="3" />
+        </g>
+      ),
+    },
+    {
+      step: 7,
+      effect: 'melt',
+      node: (
+        <g>
+          <circle cx="100" cy="88" r="20" {...snowball} />
+          <circle cx="93" cy="84" r="2.5" fill={INK} />
+          <circle cx="107" cy="84" r="2.5" fill={INK} />
+          <path d="M92 97 Q100 102 108 97" stroke={INK} strokeWidth={2} fill="none" strokeLinecap="round" />
+        </g>
+      ),
+    },
+    { step: 5, effect: 'fall', node: <path d="M100 88 L120 91 L100 94 Z" fill="#f97316" /> },
+    {
+      step: 4,
+      effect: 'fall',
+      node: (
+        <g fill="#ef4444">
+          <rect x="80" y="104" width="40" height="8" rx="4" />
+          <rect x="106" y="106" width="8" height="22" rx="3" />
+        </g>
+      ),
+    },
+    {
+      step: 1,
+      effect: 'fall',
+      node: (
+        <g fill="#1e293b">
+          <rect x="78" y="66" width="44" height="5" rx="2" />
+          <rect x="87" y="40" width="26" height="28" rx="2" />
+        </g>
+      ),
+    },
+  ],
+};
+
+export const PROGRESS_DRAWINGS: Record<ProgressTheme, ProgressDrawing> = { hangman, balloons, flower, snowman };
@@ -0,0 +1,204 @@
+import type { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import os from 'os';
+import { randomBytes } from 'crypto';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { ClassroomBoard, ClassroomClientMessage, ClassroomServerMessage, CLASSROOM_PATH, CLASSROOM_TEAM_CHANGE_STATUSES } from '../types';
+
+// Classroom mode relay: the teacher's screen hosts a room, student devices join
+// it with a short code. The host stays the source of truth; this only passes
+// the host's board to students and students' guesses to the host.
+
+// No 0/O or 1/I, so codes read cleanly off a projector
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 4;
+// How long a room waits for its host to reconnect before closing
+const HOST_GRACE_MS = 10 * 60 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+const MAX_MESSAGE_BYTES = 256 * 1024;
+
+interface Room {
+  code: string;
+  hostToken: string;
+  host: WebSocket | null;
+  players: Map<WebSocket, string>; // Socket → client id
+  teams: Map<string, string>; // Client id → team id, kept across reconnects
+  board: ClassroomBoard | null;
+  closeTimer: NodeJS.Timeout | null;
+}
+
+const send = (socket: WebSocket | null, message: ClassroomServerMessage) => {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const parseMessage = (data: RawData): ClassroomClientMessage | null => {
+  try {
+    const message = JSON.parse(data.toString());
+    return message && typeof message.type === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+};
+
+// Addresses other devices on the network can use to reach this server
+const getJoinUrls = (req: IncomingMessage): string[] => {
+  const port = (req.headers.host ?? '').split(':')[1];
+  const addresses = Object.values(os.networkInterfaces())
+    .flat()
+    .filter(info => info && info.family === 'IPv4' && !info.internal)
+    .map(info => info!.address);
+  return addresses.map(address => `http://${address}${port ? `:${port}` : ''}`);
+};
+
+export const attachClassroomServer = (httpServer: Server): void => {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  const rooms = new Map<string, Room>();
+  const alive = new WeakSet<WebSocket>();
+
+  const createCode = (): string => {
+    let code: string;
+    do {
+      code = Array.from(randomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const notifyPlayerCount = (room: Room) => send(room.host, { type: 'players', count: room.players.size });
+
+  const broadcast = (room: Room, message: ClassroomServerMessage) => {
+    for (const player of room.players.keys()) send(player, message);
+  };
+
+  const closeRoom = (room: Room) => {
+    broadcast(room, { type: 'error', message: 'The class has ended.' });
+    for (const player of room.players.keys()) player.close();
+    rooms.delete(room.code);
+    console.log(`[classroom] room ${room.code} closed`);
+  };
+
+  const handleHost = (socket: WebSocket, req: IncomingMessage, message: Extract<ClassroomClientMessage, { type: 'host' }>) => {
+    const existing = message.code ? rooms.get(message.code) : undefined;
+    let room: Room;
+    if (existing && existing.hostToken === message.hostToken) {
+      room = existing;
+      if (room.closeTimer) clearTimeout(room.closeTimer);
+      room.closeTimer = null;
+      if (room.host && room.host !== socket) room.host.close();
+    } else {
+      room = { code: createCode(), hostToken: randomBytes(16).toString('hex'), host: null, players: new Map(), teams: new Map(), board: null, closeTimer: null };
+      rooms.set(room.code, room);
+      console.log(`[classroom] room ${room.code} opened`);
+    }
+    room.host = socket;
+    send(socket, { type: 'hosted', code: room.code, hostToken: room.hostToken, joinUrls: getJoinUrls(req) });
+    notifyPlayerCount(room);
+    broadcast(room, { type: 'host-status', online: true });
+    return room;
+  };
+
+  // The team on record, as long as it is still playing
+  const getPlayerTeam = (room: Room, clientId: string): string | null => {
+    const teamId = room.teams.get(clientId);
+    return teamId && room.board?.teams.some(team => team.id === teamId) ? teamId : null;
+  };
+
+  const handlePickTeam = (socket: WebSocket, room: Room, teamId: string) => {
+    const clientId = room.players.get(socket) ?? '';
+    const current = getPlayerTeam(room, clientId);
+    if (!room.board?.teams.some(team => team.id === teamId)) {
+      send(socket, { type: 'error', message: "That team isn't playing." });
+    } else if (current && current !== teamId && !CLASSROOM_TEAM_CHANGE_STATUSES.includes(room.board.status)) {
+      send(socket, { type: 'error', message: 'Teams can only be changed between games.' });
+    } else {
+      room.teams.set(clientId, teamId);
+    }
+    send(socket, { type: 'team', teamId: getPlayerTeam(room, clientId) });
+  };
+
+  const handleJoin = (socket: WebSocket, message: Extract<ClassroomClientMessage, { type: 'join' }>) => {
+    const room = rooms.get(String(message.code).toUpperCase());
+    if (!room) {
+      send(socket, { type: 'error', message: 'No class with that code. Check the code on the board.' });
+      return null;
+    }
+    const clientId = String(message.clientId);
+    room.players.set(socket, clientId);
+    send(socket, { type: 'joined', code: room.code });
+    send(socket, { type: 'team', teamId: getPlayerTeam(room, clientId) });
+    send(socket, { type: 'host-status', online: room.host !== null });
+    if (room.board) send(socket, { type: 'board', board: room.board });
+    notifyPlayerCount(room);
+    return room;
+  };
+
+  wss.on('connection', (socket: WebSocket, req: IncomingMessage) => {
+    alive.add(socket);
+    socket.on('pong', () => alive.add(socket));
+
+    // Each connection is either one room's host or one of its players
+    let room: Room | null = null;
+    let isHost = false;
+
+    socket.on('message', data => {
+      const message = parseMessage(data);
+      if (!message) return;
+
+      if (message.type === 'host' && !room) {
+        room = handleHost(socket, req, message);
+        isHost = true;
+      } else if (message.type === 'join' && !room) {
+        room = handleJoin(socket, message);
+      } else if (message.type === 'board' && room && isHost) {
+        room.board = message.board;
+        broadcast(room, { type: 'board', board: message.board });
+      } else if (message.type === 'pick-team' && room && !isHost) {
+        handlePickTeam(socket, room, String(message.teamId));
+      } else if (message.type === 'guess' && room && !isHost) {
+        const clientId = room.players.get(socket) ?? '';
+        const teamId = getPlayerTeam(room, clientId);
+        if (!room.host) {
+          send(socket, { type: 'error', message: "The teacher's screen is offline. Wait for it to come back." });
+          return;
+        }
+        if (!teamId) {
+          send(socket, { type: 'team', teamId: null });
+          return;
+        }
+        // The host only accepts guesses from the team whose turn it is
+        send(room.host, { type: 'guess', teamId, letter: String(message.letter), clientId });
+      }
+    });
+
+    socket.on('close', () => {
+      if (!room) return;
+      const current = room;
+      if (isHost && current.host === socket) {
+        current.host = null;
+        broadcast(current, { type: 'host-status', online: false });
+        current.closeTimer = setTimeout(() => closeRoom(current), HOST_GRACE_MS);
+      } else if (!isHost) {
+        current.players.delete(socket);
+        notifyPlayerCount(current);
+      }
+    });
+  });
+
+  // Drop connections that stopped answering pings (e.g. a tablet that went to sleep)
+  const heartbeat = setInterval(() => {
+    for (const socket of wss.clients) {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      alive.delete(socket);
+      socket.ping();
+    }
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Other upgrades (e.g. Vite's hot reload) are left to their own handlers
+    if ((req.url ?? '').split('?')[0] !== CLASSROOM_PATH) return;
+    wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+  });
+};
@@ -0,0 +1,207 @@
+import { GoogleGenAI, Type, Modality, ApiError, FinishReason, GenerateContentResponse, HarmCategory, HarmBlockThreshold } from "@google/genai";
+import { Difficulty, WordCategory, WORD_CATEGORIES, GenerationErrorKind } from "../types";
+
+// Server-side Gemini calls. The API key never leaves this process.
+
+// Longest each call may take before it is abandoned; images are the slowest
+const WORD_TIMEOUT_MS = 20 * 1000;
+const IMAGE_TIMEOUT_MS = 45 * 1000;
+const SPEECH_TIMEOUT_MS = 20 * 1000;
+
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+// Strictest thresholds for the words and pictures; the audience is young children
+const SAFETY_SETTINGS = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+].map(category => ({ category, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE }));
+
+// A failed Gemini call, classified so the proxy can pick a status code
+export class GeminiError extends Error {
+  kind: GenerationErrorKind;
+
+  constructor(kind: GenerationErrorKind, message: string) {
+    super(message);
+    this.name = 'GeminiError';
+    this.kind = kind;
+  }
+}
+
+const toGeminiError = (error: unknown): GeminiError => {
+  if (error instanceof GeminiError) return error;
+  if (error instanceof ApiError) {
+    if (error.status === 401 || error.status === 403) return new GeminiError('missing-key', 'Gemini rejected the API key');
+    if (error.status === 429) return new GeminiError('quota', 'Gemini rate limit or quota exceeded');
+    if (error.status === 408 || error.status === 504) return new GeminiError('timeout', 'Gemini took too long to answer');
+    if (error.status === 400 && /API key/i.test(error.message)) return new GeminiError('missing-key', 'Gemini rejected the API key');
+    return new GeminiError('network', `Gemini returned status ${error.status}`);
+  }
+  if (error instanceof Error && error.name === 'AbortError') return new GeminiError('timeout', 'Gemini took too long to answer');
+  return new GeminiError('network', error instanceof Error ? error.message : 'Gemini request failed');
+};
+
+// Blocked prompts and answers come back as empty responses rather than errors
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    throw new GeminiError('safety', `Gemini blocked the content (${blockReason ?? finishReason})`);
+  }
+};
+
+const getAiClient = (apiKey: string) => new GoogleGenAI({ apiKey });
+
+// Returns the model's raw JSON text; the client validates and repairs it
+export const generateWordJson = async (
+  apiKey: string,
+  difficulty: Difficulty,
+  category: WordCategory | null,
+  previousWords: string[],
+  feedback: string[]
+): Promise<string> => {
+  const ai = getAiClient(apiKey);
+  
+  let difficultyPrompt = "";
+  switch (difficulty) {
+    case Difficulty.EASY:
+      difficultyPrompt = "Strictly generate a VERY SIMPLE Tamil word with only 2 or 3 letters/graphemes (e.g., கண், பால், கல்). The word must be a basic noun familiar to a toddler.";
+      break;
+    case Difficulty.MEDIUM:
+      difficultyPrompt = "Generate a common Tamil word with 3 to 5 letters/graphemes (e.g., மரம், சக்கரம்).";
+      break;
+    case Difficulty.HARD:
+      difficultyPrompt = "Generate a slightly longer or more complex Tamil word (5+ letters/graphemes) (e.g., வாழைப்பழம், நட்சத்திரம்).";
+      break;
+  }
+
+  const categoryPrompt = category
+    ? `The word MUST belong to the topic "${WORD_CATEGORIES[category].label}", and the distractors must be from the same topic.`
+    : '';
+  const categoryKeys = Object.keys(WORD_CATEGORIES).join(', ');
+
+  const prompt = `
+    Generate a single Tamil word suitable for a children's game played by 4 to 8 year olds.
+    The word and the distractors must be friendly everyday nouns: nothing violent, scary, rude or about alcohol, tobacco or weapons.
+    ${difficultyPrompt}
+    ${categoryPrompt}
+    
+    IMPORTANT: Do NOT use any of these words: ${previousWords.join(', ')}.
+    
+    Return a JSON object with:
+    - word: The Tamil word.
+    - english: The English translation.
+    - transliteration: How to pronounce it in English characters.
+    - distractors: An array of 2 other simple English nouns (different from the target) to use as visual decoys.
+    - distractorLetters: An array of 12 random Tamil letters (vowels, consonants, or combined letters) that are NOT in the target word. Each must be exactly one letter.
+    - category: The word's topic, one of: ${categoryKeys}.
+
+    ${feedback.length > 0 ? `Your previous answer was rejected because: ${feedback.join('; ')}. Fix these problems.` : ''}
+  `;
+
+  let response: GenerateContentResponse;
+  try {
+    response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        httpOptions: { timeout: WORD_TIMEOUT_MS },
+        safetySettings: SAFETY_SETTINGS,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            word: { type: Type.STRING },
+            english: { type: Type.STRING },
+            transliteration: { type: Type.STRING },
+            distractors: { 
+              type: Type.ARRAY, 
+              items: { type: Type.STRING } 
+            },
+            distractorLetters: { 
+              type: Type.ARRAY, 
+              items: { type: Type.STRING } 
+            },
+            category: { type: Type.STRING }
+          },
+          required: ["word", "english", "transliteration", "distractors", "distractorLetters", "category"]
+        }
+      }
+    });
+  } catch (error) {
+    throw toGeminiError(error);
+  }
+
+  throwIfBlocked(response);
+
+  const text = response.text;
+  if (!text) throw new GeminiError('bad-response', "No response from Gemini");
+  return text;
+};
+
+export const generateImage = async (apiKey: string, word: string): Promise<string> => {
+  const ai = getAiClient(apiKey);
+  
+  const prompt = `A cute, colorful, vector-style cartoon illustration of a ${word} for a children's educational game. White background, simple lines, vibrant colors.`;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        // No specific imageConfig needed for standard square generation unless requested
+        httpOptions: { timeout: IMAGE_TIMEOUT_MS },
+        safetySettings: SAFETY_SETTINGS,
+      }
+    });
+    throwIfBlocked(response);
+
+    // Iterate to find the image part
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData && part.inlineData.data) {
+        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      }
+    }
+    throw new GeminiError('bad-response', "No image data found in response");
+  } catch (error) {
+    console.error("Image generation failed:", error);
+    // Re-throw so the proxy reports the failure to the client
+    throw toGeminiError(error);
+  }
+};
+
+export const generateSpeech = async (apiKey: string, word: string): Promise<string> => {
+  const ai = getAiClient(apiKey);
+
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash-preview-tts",
+      contents: [{ parts: [{ text: word }] }],
+      config: {
+        httpOptions: { timeout: SPEECH_TIMEOUT_MS },
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: 'Kore' },
+          },
+        },
+      },
+    });
+    throwIfBlocked(response);
+
+    const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!audio) throw new GeminiError('bad-response', "No audio data found in response");
+    return audio;
+  } catch (error) {
+    console.error("Audio generation failed:", error);
+    throw toGeminiError(error);
+  }
+};
@@ -0,0 +1,129 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { generateWordJson, generateImage, generateSpeech, GeminiError } from './gemini';
+import { createRateLimiter, createDailyQuota } from './limits';
+import { Difficulty, isWordCategory, GenerationErrorKind } from '../types';
+
+export interface ProxyOptions {
+  apiKey: string | undefined;
+  requestsPerMinute: number; // Per client IP
+  dailyQuota: number; // Across all clients
+}
+
+// Environment variables, with defaults sized for one classroom
+export const proxyOptionsFromEnv = (env: Record<string, string | undefined>): ProxyOptions => ({
+  apiKey: env.GEMINI_API_KEY,
+  requestsPerMinute: Number(env.PROXY_REQUESTS_PER_MINUTE) || 30,
+  dailyQuota: Number(env.PROXY_DAILY_QUOTA) || 1000,
+});
+
+class HttpError extends Error {
+  status: number;
+  kind?: GenerationErrorKind; // Lets the client tell a quota or key problem from a bad request
+
+  constructor(status: number, message: string, kind?: GenerationErrorKind) {
+    super(message);
+    this.status = status;
+    this.kind = kind;
+  }
+}
+
+const GEMINI_ERROR_STATUS: Record<GenerationErrorKind, number> = {
+  'missing-key': 503,
+  quota: 429,
+  safety: 422,
+  network: 502,
+  timeout: 504,
+  'bad-response': 502,
+};
+
+const toHttpError = (error: unknown): HttpError => {
+  if (error instanceof HttpError) return error;
+  if (error instanceof GeminiError) return new HttpError(GEMINI_ERROR_STATUS[error.kind], error.message, error.kind);
+  return new HttpError(502, 'Gemini request failed', 'network');
+};
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const readJsonBody = (req: IncomingMessage): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        reject(new HttpError(400, 'Request body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(payload));
+};
+
+const requireString = (value: unknown, field: string, maxLength = 200): string => {
+  if (typeof value !== 'string' || !value.trim() || value.length > maxLength) {
+    throw new HttpError(400, `"${field}" must be a non-empty string`);
+  }
+  return value.trim();
+};
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string').slice(0, 200) : [];
+
+type Handler = (body: Record<string, unknown>, apiKey: string) => Promise<unknown>;
+
+const ROUTES: Record<string, Handler> = {
+  '/api/word': async (body, apiKey) => {
+    const difficulty = body.difficulty as Difficulty;
+    if (!Object.values(Difficulty).includes(difficulty)) throw new HttpError(400, 'Unknown difficulty');
+    const category = isWordCategory(body.category) ? body.category : null;
+    if (body.category != null && !category) throw new HttpError(400, 'Unknown category');
+    const text = await generateWordJson(apiKey, difficulty, category, asStringArray(body.previousWords), asStringArray(body.feedback));
+    return { text };
+  },
+  '/api/image': async (body, apiKey) => ({ src: await generateImage(apiKey, requireString(body.label, 'label')) }),
+  '/api/tts': async (body, apiKey) => ({ audio: await generateSpeech(apiKey, requireString(body.text, 'text')) }),
+};
+
+// Connect-style middleware serving the Gemini endpoints; anything else goes to `next`
+export const createGeminiProxy = (options: ProxyOptions) => {
+  const rateLimiter = createRateLimiter(options.requestsPerMinute, 60 * 1000);
+  const quota = createDailyQuota(options.dailyQuota);
+
+  return async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const path = (req.url ?? '').split('?')[0];
+    const handler = ROUTES[path];
+    if (!handler) return next();
+
+    const startedAt = Date.now();
+    const clientId = req.socket.remoteAddress ?? 'unknown';
+    let status = 200;
+
+    try {
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST');
+      if (!options.apiKey) throw new HttpError(503, 'The server has no GEMINI_API_KEY configured', 'missing-key');
+      if (!rateLimiter.tryRequest(clientId)) throw new HttpError(429, 'Too many requests, please slow down', 'quota');
+      if (!quota.tryConsume()) throw new HttpError(429, "Today's Gemini quota has been used up", 'quota');
+
+      const payload = await handler(await readJsonBody(req), options.apiKey);
+      sendJson(res, status, payload);
+    } catch (error) {
+      const httpError = toHttpError(error);
+      status = httpError.status;
+      sendJson(res, status, { error: httpError.message, ...(httpError.kind ? { kind: httpError.kind } : {}) });
+    } finally {
+      console.log(`[proxy] ${new Date().toISOString()} ${clientId} ${req.method} ${path} ${status} ${Date.now() - startedAt}ms (quota left: ${quota.remaining()})`);
+    }
+  };
+};
@@ -0,0 +1,66 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { createGeminiProxy, proxyOptionsFromEnv } from './geminiProxy';
+import { attachClassroomServer } from './classroom';
+
+// Standalone server for deployments: the Gemini proxy, the classroom relay and the built app from dist/.
+// In development `npm run dev` mounts the same proxy inside Vite instead.
+
+// Pick up GEMINI_API_KEY and friends the same way `vite` does in development
+for (const envFile of ['.env', '.env.local']) {
+  if (fs.existsSync(envFile)) process.loadEnvFile(envFile);
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const DIST_DIR = path.resolve(process.cwd(), 'dist');
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+const serveStatic = (req: http.IncomingMessage, res: http.ServerResponse) => {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent((req.url ?? '/').split('?')[0]);
+  } catch {
+    // Malformed escapes like %E0%A4 would otherwise throw and take the classroom rooms down with the process
+    res.statusCode = 400;
+    res.end('Bad request');
+    return;
+  }
+  const requested = path.resolve(DIST_DIR, `.${urlPath}`);
+  const insideDist = requested === DIST_DIR || requested.startsWith(DIST_DIR + path.sep);
+  // Unknown paths (and anything outside dist/) fall back to the app shell
+  const filePath = insideDist && fs.existsSync(requested) && fs.statSync(requested).isFile()
+    ? requested
+    : path.join(DIST_DIR, 'index.html');
+
+  fs.readFile(filePath, (error, data) => {
+    if (error) {
+      res.statusCode = 404;
+      res.end('Not found. Run `npm run build` first.');
+      return;
+    }
+    res.setHeader('Content-Type', MIME_TYPES[path.extname(filePath)] ?? 'application/octet-stream');
+    res.end(data);
+  });
+};
+
+const proxy = createGeminiProxy(proxyOptionsFromEnv(process.env));
+
+const server = http.createServer((req, res) => {
+  proxy(req, res, () => serveStatic(req, res));
+});
+
+attachClassroomServer(server);
+
+server.listen(PORT, () => {
+  console.log(`Tamil Hangman server listening on http://localhost:${PORT}`);
+});
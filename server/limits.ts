@@ -0,0 +1,60 @@
+// In-memory request limits for the proxy. They reset when the server restarts.
+
+export interface RateLimiter {
+  // Records a request from `clientId`; false when it is over the limit
+  tryRequest: (clientId: string, now?: number) => boolean;
+}
+
+// Fixed-window limit of `limit` requests per client every `windowMs`
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return {
+    tryRequest: (clientId, now = Date.now()) => {
+      const current = windows.get(clientId);
+      if (!current || now - current.startedAt >= windowMs) {
+        // Forget stale clients so the map does not grow without bound
+        for (const [id, window] of windows) {
+          if (now - window.startedAt >= windowMs) windows.delete(id);
+        }
+        windows.set(clientId, { startedAt: now, count: 1 });
+        return true;
+      }
+      if (current.count >= limit) return false;
+      current.count += 1;
+      return true;
+    },
+  };
+};
+
+export interface DailyQuota {
+  tryConsume: (now?: Date) => boolean;
+  remaining: (now?: Date) => number;
+}
+
+// Caps total Gemini calls per calendar day (server local time)
+export const createDailyQuota = (limit: number): DailyQuota => {
+  let day = '';
+  let used = 0;
+
+  const roll = (now: Date) => {
+    const today = now.toDateString();
+    if (today !== day) {
+      day = today;
+      used = 0;
+    }
+  };
+
+  return {
+    tryConsume: (now = new Date()) => {
+      roll(now);
+      if (used >= limit) return false;
+      used += 1;
+      return true;
+    },
+    remaining: (now = new Date()) => {
+      roll(now);
+      return Math.max(0, limit - used);
+    },
+  };
+};
@@ -0,0 +1,103 @@
+import { idbGet, idbGetAll, idbPut, idbDelete, idbClear } from '../utils/idb';
+import { WordProvider } from '../types';
+
+// Generated images are ~1MB each, so this keeps a few dozen rounds' worth
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 300;
+
+type AssetKind = 'image' | 'audio';
+
+// Payloads live in `assets`; size and recency live in `assetIndex` so
+// eviction and stats never have to load the payloads themselves
+interface CachedAsset {
+  key: string;
+  data: string;
+}
+
+interface CachedAssetInfo {
+  key: string;
+  kind: AssetKind;
+  size: number;
+  lastUsedAt: number;
+}
+
+export interface AssetCacheStats {
+  count: number;
+  bytes: number;
+}
+
+const cacheKey = (provider: WordProvider, kind: AssetKind, label: string) =>
+  `${provider.source}:${kind}:${label.trim().toLowerCase()}`;
+
+const readAsset = async (key: string): Promise<string | null> => {
+  try {
+    const [asset, info] = await Promise.all([
+      idbGet<CachedAsset>('assets', key),
+      idbGet<CachedAssetInfo>('assetIndex', key),
+    ]);
+    if (!asset || !info) return null;
+    // Touch the entry so eviction removes the least recently used assets first
+    await idbPut('assetIndex', { ...info, lastUsedAt: Date.now() });
+    return asset.data;
+  } catch (error) {
+    console.warn("Asset cache read failed:", error);
+    return null;
+  }
+};
+
+// Drop least recently used assets until the cache fits its limits
+const evictAssets = async () => {
+  const infos = await idbGetAll<CachedAssetInfo>('assetIndex');
+  let bytes = infos.reduce((total, info) => total + info.size, 0);
+  let count = infos.length;
+  const oldestFirst = infos.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+
+  for (const info of oldestFirst) {
+    if (bytes <= MAX_CACHE_BYTES && count <= MAX_CACHE_ENTRIES) break;
+    await Promise.all([idbDelete('assets', info.key), idbDelete('assetIndex', info.key)]);
+    bytes -= info.size;
+    count -= 1;
+  }
+};
+
+const writeAsset = async (key: string, kind: AssetKind, data: string) => {
+  // Providers without audio return "", which must not be cached
+  if (!data) return;
+  try {
+    await idbPut<CachedAsset>('assets', { key, data });
+    await idbPut<CachedAssetInfo>('assetIndex', { key, kind, size: data.length, lastUsedAt: Date.now() });
+    await evictAssets();
+  } catch (error) {
+    console.warn("Asset cache write failed:", error);
+  }
+};
+
+const cached = (provider: WordProvider, kind: AssetKind, generate: (label: string) => Promise<string>) =>
+  async (label: string): Promise<string> => {
+    const key = cacheKey(provider, kind, label);
+    const hit = await readAsset(key);
+    if (hit) return hit;
+
+    const data = await generate(label);
+    await writeAsset(key, kind, data);
+    return data;
+  };
+
+// Wraps a provider so images and audio are served from IndexedDB when already generated
+export const withAssetCache = (provider: WordProvider): WordProvider => ({
+  ...provider,
+  fetchImage: cached(provider, 'image', provider.fetchImage),
+  fetchAudio: cached(provider, 'audio', provider.fetchAudio),
+});
+
+export const getAssetCacheStats = async (): Promise<AssetCacheStats> => {
+  const infos = await idbGetAll<CachedAssetInfo>('assetIndex');
+  return {
+    count: infos.length,
+    bytes: infos.reduce((total, info) => total + info.size, 0),
+  };
+};
+
+export const clearAssetCache = async (): Promise<void> => {
+  await Promise.all([idbClear('assets'), idbClear('assetIndex')]);
+};
@@ -0,0 +1,82 @@
+import { ClassroomClientMessage, ClassroomServerMessage, CLASSROOM_PATH } from '../types';
+import { loadJSON, saveJSON } from '../utils/storage';
+
+// Reconnect delays grow from the first to the last, then stay there
+const RECONNECT_DELAYS_MS = [1000, 2000, 4000, 8000];
+
+export interface ClassroomConnection {
+  send: (message: ClassroomClientMessage) => void;
+  close: () => void;
+}
+
+interface ClassroomHandlers {
+  // Called on every (re)connect; re-send host/join here so the room is picked up again
+  onOpen: (send: (message: ClassroomClientMessage) => void) => void;
+  onMessage: (message: ClassroomServerMessage) => void;
+  onConnectionChange: (connected: boolean) => void;
+}
+
+const getClassroomUrl = (): string =>
+  `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}${CLASSROOM_PATH}`;
+
+// A WebSocket to the classroom server that keeps reconnecting until closed
+export const connectClassroom = ({ onOpen, onMessage, onConnectionChange }: ClassroomHandlers): ClassroomConnection => {
+  let socket: WebSocket | null = null;
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const send = (message: ClassroomClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const connect = () => {
+    socket = new WebSocket(getClassroomUrl());
+
+    socket.onopen = () => {
+      attempt = 0;
+      onConnectionChange(true);
+      onOpen(send);
+    };
+
+    socket.onmessage = event => {
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.warn('Ignoring a bad classroom message:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      onConnectionChange(false);
+      const delay = RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+      attempt++;
+      retryTimer = setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+
+  return {
+    send,
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+    },
+  };
+};
+
+const CLIENT_ID_KEY = 'classroomClientId';
+
+// Identifies this device across reconnects, for the host's logs
+export const getClassroomClientId = (): string => {
+  let id = loadJSON<string>(CLIENT_ID_KEY, '');
+  if (!id) {
+    id = Math.random().toString(36).slice(2, 10);
+    saveJSON(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
@@ -0,0 +1,72 @@
+import { ContentFilterLists, ContentRejection, GameWordData } from '../types';
+import { loadJSON, saveJSON, removeJSON } from '../utils/storage';
+import { isTamilText } from '../utils/tamil';
+
+// A local safety net under Gemini's own filters: every word, meaning and decoy
+// noun is checked here before anything is drawn or shown to the class
+
+const FILTER_LISTS_KEY = 'contentFilter';
+const REJECTION_LOG_KEY = 'rejectionLog';
+const MAX_REJECTIONS = 500;
+
+// Kept short and unambiguous; teachers extend it from the analytics screen
+const BUILT_IN_BLOCKED_ENGLISH = [
+  'gun', 'pistol', 'rifle', 'bullet', 'bomb', 'grenade', 'weapon', 'sword', 'dagger',
+  'blood', 'kill', 'murder', 'corpse', 'skull', 'war', 'torture', 'suicide',
+  'alcohol', 'beer', 'wine', 'liquor', 'whisky', 'whiskey', 'vodka', 'toddy',
+  'cigarette', 'cigar', 'tobacco', 'drug', 'cocaine', 'poison',
+  'naked', 'nude', 'sex', 'sexy',
+];
+
+const BUILT_IN_BLOCKED_TAMIL = [
+  'துப்பாக்கி', 'வெடிகுண்டு', 'குண்டு', 'ரத்தம்', 'இரத்தம்', 'கொலை', 'பிணம்', 'போர்',
+  'சாராயம்', 'மது', 'கள்', 'சிகரெட்', 'பீடி', 'புகையிலை', 'விஷம்',
+];
+
+const normalize = (term: string) => term.trim().toLowerCase();
+
+export const loadFilterLists = (): ContentFilterLists => {
+  const saved = loadJSON<Partial<ContentFilterLists>>(FILTER_LISTS_KEY, {});
+  return { blocked: saved.blocked ?? [], allowed: saved.allowed ?? [] };
+};
+
+export const saveFilterLists = (lists: ContentFilterLists): void =>
+  saveJSON(FILTER_LISTS_KEY, {
+    blocked: Array.from(new Set(lists.blocked.map(normalize).filter(Boolean))),
+    allowed: Array.from(new Set(lists.allowed.map(normalize).filter(Boolean))),
+  });
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// English terms match whole words, plurals included, so "war" does not catch "warm".
+// Tamil terms must be a whole word, since short ones (கள்) are also common suffixes.
+const matchesTerm = (text: string, term: string): boolean => {
+  if (isTamilText(term.replace(/\s/g, ''))) return text.split(/\s+/).includes(term);
+  return new RegExp(`(^|[^a-z])${escapeRegExp(term)}(s|es)?($|[^a-z])`).test(text);
+};
+
+// The blocked term `text` contains, or null when it is fine to show
+export const findBlockedTerm = (text: string, lists: ContentFilterLists = loadFilterLists()): string | null => {
+  const normalized = normalize(text);
+  if (!normalized) return null;
+  const allowed = new Set(lists.allowed.map(normalize));
+  if (allowed.has(normalized)) return null;
+
+  const blocked = [...BUILT_IN_BLOCKED_ENGLISH, ...BUILT_IN_BLOCKED_TAMIL, ...lists.blocked.map(normalize)];
+  return blocked.find(term => term && !allowed.has(term) && matchesTerm(normalized, term)) ?? null;
+};
+
+// Checks the parts of a word the class will read or hear; decoys are checked separately
+export const findBlockedInWord = (wordData: GameWordData, lists: ContentFilterLists = loadFilterLists()): string | null =>
+  findBlockedTerm(wordData.word, lists)
+    ?? findBlockedTerm(wordData.english, lists)
+    ?? findBlockedTerm(wordData.transliteration, lists);
+
+export const loadRejectionLog = (): ContentRejection[] => loadJSON<ContentRejection[]>(REJECTION_LOG_KEY, []);
+
+export const logRejection = (rejection: Omit<ContentRejection, 'timestamp'>): void => {
+  console.warn(`Content rejected (${rejection.source}): ${rejection.text} — ${rejection.reason}`);
+  saveJSON(REJECTION_LOG_KEY, [...loadRejectionLog(), { timestamp: Date.now(), ...rejection }].slice(-MAX_REJECTIONS));
+};
+
+export const clearRejectionLog = (): void => removeJSON(REJECTION_LOG_KEY);
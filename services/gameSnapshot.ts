@@ -0,0 +1,70 @@
+import { GameStatus, WordSource } from '../types';
+import { GameState } from '../utils/gameEngine';
+import { idbGet, idbPut, idbDelete } from '../utils/idb';
+
+// Bump whenever GameState changes shape; snapshots from other versions are dropped
+const SNAPSHOT_VERSION = 4; // 2: added category, 3: added turnId, 4: added settings.progressTheme
+const SNAPSHOT_KEY = 'current';
+
+// Statuses worth resuming; anything else means there is no match in progress
+const RESUMABLE_STATUSES = [GameStatus.LOADING, GameStatus.PLAYING, GameStatus.WON, GameStatus.LOST, GameStatus.ERROR];
+
+// GameState with its Sets stored as arrays so IndexedDB can clone it
+type StoredGameState = Omit<GameState, 'guessedLetters' | 'eliminatedLetters'> & {
+  guessedLetters: string[];
+  eliminatedLetters: string[];
+};
+
+interface StoredSnapshot {
+  key: string;
+  version: number;
+  savedAt: number;
+  state: StoredGameState;
+  wordSource: WordSource;
+  wordListId: string | null;
+}
+
+export interface GameSnapshot {
+  savedAt: number;
+  state: GameState;
+  wordSource: WordSource; // Where the match's words came from, so later rounds match
+  wordListId: string | null;
+}
+
+export const isResumable = (state: GameState): boolean => RESUMABLE_STATUSES.includes(state.status);
+
+export const saveSnapshot = async (state: GameState, wordSource: WordSource, wordListId: string | null): Promise<void> => {
+  const { guessedLetters, eliminatedLetters, ...rest } = state;
+  const stored: StoredSnapshot = {
+    key: SNAPSHOT_KEY,
+    version: SNAPSHOT_VERSION,
+    savedAt: Date.now(),
+    state: { ...rest, guessedLetters: Array.from(guessedLetters), eliminatedLetters: Array.from(eliminatedLetters) },
+    wordSource,
+    wordListId,
+  };
+  await idbPut('snapshots', stored);
+};
+
+export const clearSnapshot = (): Promise<void> => idbDelete('snapshots', SNAPSHOT_KEY);
+
+export const loadSnapshot = async (): Promise<GameSnapshot | null> => {
+  const stored = await idbGet<StoredSnapshot>('snapshots', SNAPSHOT_KEY);
+  if (!stored) return null;
+  if (stored.version !== SNAPSHOT_VERSION) {
+    await clearSnapshot();
+    return null;
+  }
+
+  const state: GameState = {
+    ...stored.state,
+    guessedLetters: new Set(stored.state.guessedLetters),
+    eliminatedLetters: new Set(stored.state.eliminatedLetters),
+  };
+  // A load interrupted by the reload has to be started again
+  const resumed = state.status === GameStatus.LOADING
+    ? { ...state, status: GameStatus.ERROR, errorMsg: "The next puzzle hadn't finished loading. Tap Retry to load it." }
+    : state;
+
+  return { savedAt: stored.savedAt, state: resumed, wordSource: stored.wordSource, wordListId: stored.wordListId };
+};
@@ -1,118 +1,105 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { GameWordData, Difficulty } from "../types";
+import { GameWordData, Difficulty, WordCategory, GenerationErrorKind } from "../types";
+import { validateWordData, WordValidationError } from "./wordValidation";
+import { GenerationError, NetworkError, TimeoutError, BadResponseError, createGenerationError } from "./generationErrors";
+import { retryWithBackoff } from "../utils/retry";
 
-// Initialize the API client
-const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+// All Gemini calls go through our server so the API key never reaches the browser
+const API_BASE = '/api';
 
-export const fetchWordData = async (difficulty: Difficulty, previousWords: string[] = []): Promise<GameWordData> => {
-  const ai = getAiClient();
-  
-  let difficultyPrompt = "";
-  switch (difficulty) {
-    case Difficulty.EASY:
-      difficultyPrompt = "Strictly generate a VERY SIMPLE Tamil word with only 2 or 3 letters/graphemes (e.g., கண், பால், கல்). The word must be a basic noun familiar to a toddler.";
-      break;
-    case Difficulty.MEDIUM:
-      difficultyPrompt = "Generate a common Tamil word with 3 to 5 letters/graphemes (e.g., மரம், சக்கரம்).";
-      break;
-    case Difficulty.HARD:
-      difficultyPrompt = "Generate a slightly longer or more complex Tamil word (5+ letters/graphemes) (e.g., வாழைப்பழம், பேருந்து).";
-      break;
-  }
-
-  const prompt = `
-    Generate a single Tamil word suitable for a children's game.
-    ${difficultyPrompt}
-    
-    IMPORTANT: Do NOT use any of these words: ${previousWords.join(', ')}.
-    
-    Return a JSON object with:
-    - word: The Tamil word.
-    - english: The English translation.
-    - transliteration: How to pronounce it in English characters.
-    - distractors: An array of 2 other simple English nouns (different from the target) to use as visual decoys.
-    - distractorLetters: An array of 12 random Tamil letters (vowels, consonants, or combined letters) that are NOT in the target word.
-  `;
+// How many times to ask again when a word response breaks the game's rules
+const MAX_WORD_ATTEMPTS = 3;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          word: { type: Type.STRING },
-          english: { type: Type.STRING },
-          transliteration: { type: Type.STRING },
-          distractors: { 
-            type: Type.ARRAY, 
-            items: { type: Type.STRING } 
-          },
-          distractorLetters: { 
-            type: Type.ARRAY, 
-            items: { type: Type.STRING } 
-          }
-        },
-        required: ["word", "english", "transliteration", "distractors", "distractorLetters"]
-      }
-    }
-  });
+// A little longer than the server allows Gemini, so its own timeout is reported first
+const TIMEOUTS_MS: Record<string, number> = {
+  '/word': 30 * 1000,
+  '/image': 60 * 1000,
+  '/tts': 30 * 1000,
+};
 
-  const text = response.text;
-  if (!text) throw new Error("No response from Gemini");
-  
-  return JSON.parse(text) as GameWordData;
+// Network hiccups and timeouts are retried; quota, key and safety failures are not
+const RETRY_OPTIONS = {
+  attempts: 3,
+  baseDelayMs: 1000,
+  shouldRetry: (error: unknown) => error instanceof GenerationError && error.retryable,
 };
 
-export const generateImageForWord = async (word: string): Promise<string> => {
-  const ai = getAiClient();
-  
-  const prompt = `A cute, colorful, vector-style cartoon illustration of a ${word} for a children's educational game. White background, simple lines, vibrant colors.`;
+const toRequestError = (status: number, payload: { error?: string; kind?: GenerationErrorKind }, path: string): GenerationError => {
+  const message = payload.error || `Request to ${path} failed with status ${status}`;
+  if (payload.kind) return createGenerationError(payload.kind, message);
+  // Without a kind the failure came from somewhere between us and the proxy
+  return status >= 500 ? new NetworkError(message) : new BadResponseError(message);
+};
 
+const postJsonOnce = async <T>(path: string, body: unknown): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUTS_MS[path]);
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        // No specific imageConfig needed for standard square generation unless requested
-      }
+    const response = await fetch(`${API_BASE}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
     });
-
-    // Iterate to find the image part
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData && part.inlineData.data) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
-    }
-    throw new Error("No image data found in response");
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) throw toRequestError(response.status, payload, path);
+    return payload as T;
   } catch (error) {
-    console.error("Image generation failed:", error);
-    // Fallback or re-throw. For this app, we re-throw to handle in UI.
-    throw error;
+    if (error instanceof GenerationError) throw error;
+    if (controller.signal.aborted) throw new TimeoutError(`Request to ${path} took longer than ${TIMEOUTS_MS[path] / 1000}s`);
+    throw new NetworkError(`Request to ${path} failed: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    clearTimeout(timer);
   }
 };
 
-export const generateAudioForWord = async (word: string): Promise<string> => {
-  const ai = getAiClient();
-  
+const postJson = <T>(path: string, body: unknown): Promise<T> =>
+  retryWithBackoff(() => postJsonOnce<T>(path, body), RETRY_OPTIONS);
+
+const requestWordData = async (
+  difficulty: Difficulty,
+  previousWords: string[],
+  category: WordCategory | null,
+  feedback: string[]
+): Promise<unknown> => {
+  const { text } = await postJson<{ text: string }>('/word', { difficulty, previousWords, category, feedback });
+
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: word }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
+    return JSON.parse(text);
+  } catch {
+    throw new WordValidationError(['the response was not valid JSON']);
+  }
+};
 
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || "";
-  } catch (error) {
-    console.error("Audio generation failed:", error);
-    return "";
+export const fetchWordData = async (
+  difficulty: Difficulty,
+  previousWords: string[] = [],
+  category: WordCategory | null = null
+): Promise<GameWordData> => {
+  let feedback: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_WORD_ATTEMPTS; attempt++) {
+    try {
+      const raw = await requestWordData(difficulty, previousWords, category, feedback);
+      return validateWordData(raw, difficulty, category);
+    } catch (error) {
+      if (!(error instanceof WordValidationError)) throw error;
+      console.warn(`Word attempt ${attempt} rejected:`, error.issues);
+      feedback = error.issues;
+    }
   }
+
+  throw new WordValidationError([
+    `Gemini could not produce a valid ${difficulty} word after ${MAX_WORD_ATTEMPTS} attempts`,
+    ...feedback,
+  ]);
+};
+
+export const generateImageForWord = async (word: string): Promise<string> => {
+  const { src } = await postJson<{ src: string }>('/image', { label: word });
+  return src;
+};
+
+export const generateAudioForWord = async (word: string): Promise<string> => {
+  const { audio } = await postJson<{ audio: string }>('/tts', { text: word });
+  return audio;
 };
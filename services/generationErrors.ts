@@ -0,0 +1,84 @@
+import { GenerationErrorKind } from '../types';
+
+// Typed failures from fetching a puzzle, each with a message fit to show the class
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  retryable: boolean; // Worth asking again after a short wait
+
+  constructor(kind: GenerationErrorKind, message: string, retryable = false) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class MissingKeyError extends GenerationError {
+  constructor(message = 'The server has no working Gemini API key') {
+    super('missing-key', message);
+    this.name = 'MissingKeyError';
+  }
+}
+
+export class QuotaError extends GenerationError {
+  constructor(message = 'The Gemini quota has been used up') {
+    super('quota', message);
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyBlockError extends GenerationError {
+  constructor(message = 'Gemini blocked the content') {
+    super('safety', message);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(message = 'Could not reach the server') {
+    super('network', message, true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends GenerationError {
+  constructor(message = 'The request took too long') {
+    super('timeout', message, true);
+    this.name = 'TimeoutError';
+  }
+}
+
+// The answer arrived but could not be used, e.g. it was not valid JSON
+export class BadResponseError extends GenerationError {
+  constructor(message = 'The response could not be used') {
+    super('bad-response', message);
+    this.name = 'BadResponseError';
+  }
+}
+
+export const createGenerationError = (kind: GenerationErrorKind, message?: string): GenerationError => {
+  switch (kind) {
+    case 'missing-key': return new MissingKeyError(message);
+    case 'quota': return new QuotaError(message);
+    case 'safety': return new SafetyBlockError(message);
+    case 'network': return new NetworkError(message);
+    case 'timeout': return new TimeoutError(message);
+    case 'bad-response': return new BadResponseError(message);
+  }
+};
+
+const FRIENDLY_MESSAGES: Record<GenerationErrorKind, string> = {
+  'missing-key': "The word machine isn't switched on yet. Ask your teacher to add a Gemini key, or play with the Offline Deck.",
+  quota: "The word machine needs a rest — we've made lots of puzzles today! Try again later, or play with the Offline Deck.",
+  safety: "That puzzle didn't come out right, so we skipped it. Tap Retry for a new one.",
+  network: "We couldn't reach the internet. Check the connection and tap Retry, or play with the Offline Deck.",
+  timeout: 'The puzzle is taking too long to make. Tap Retry to try again.',
+  'bad-response': 'The word machine got muddled. Tap Retry for a new puzzle.',
+};
+
+// What to tell the players when a puzzle could not be loaded
+export const getFriendlyErrorMessage = (error: unknown): string =>
+  error instanceof GenerationError
+    ? FRIENDLY_MESSAGES[error.kind]
+    : 'Oops! Something went wrong loading the game. Please try again.';
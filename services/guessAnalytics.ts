@@ -0,0 +1,115 @@
+import { Difficulty, GuessEvent, RoundEvent } from '../types';
+import { loadJSON, saveJSON, removeJSON } from '../utils/storage';
+import { toCSV } from '../utils/csv';
+import { downloadFile } from '../utils/download';
+
+const GUESS_LOG_KEY = 'guessLog';
+const ROUND_LOG_KEY = 'roundLog';
+
+// Oldest events are dropped beyond these, to stay well inside localStorage limits
+const MAX_GUESS_EVENTS = 5000;
+const MAX_ROUND_EVENTS = 1000;
+
+export const loadGuessLog = (): GuessEvent[] => loadJSON<GuessEvent[]>(GUESS_LOG_KEY, []);
+
+export const loadRoundLog = (): RoundEvent[] => loadJSON<RoundEvent[]>(ROUND_LOG_KEY, []);
+
+export const logGuess = (event: GuessEvent): void =>
+  saveJSON(GUESS_LOG_KEY, [...loadGuessLog(), event].slice(-MAX_GUESS_EVENTS));
+
+export const logRound = (event: RoundEvent): void =>
+  saveJSON(ROUND_LOG_KEY, [...loadRoundLog(), event].slice(-MAX_ROUND_EVENTS));
+
+export const clearAnalytics = (): void => {
+  removeJSON(GUESS_LOG_KEY);
+  removeJSON(ROUND_LOG_KEY);
+};
+
+export interface LetterStats {
+  guesses: number;
+  misses: number;
+}
+
+// How often each letter was guessed, and how often that guess was wrong
+export const getLetterStats = (events: GuessEvent[]): Map<string, LetterStats> => {
+  const stats = new Map<string, LetterStats>();
+  for (const { letter, correct } of events) {
+    const entry = stats.get(letter) ?? { guesses: 0, misses: 0 };
+    entry.guesses++;
+    if (!correct) entry.misses++;
+    stats.set(letter, entry);
+  }
+  return stats;
+};
+
+export interface WordStats {
+  word: string;
+  english: string;
+  played: number;
+  failed: number;
+}
+
+// Words ordered by how many rounds they were failed in; never-failed words are left out
+export const getMostFailedWords = (rounds: RoundEvent[], limit = 10): WordStats[] => {
+  const stats = new Map<string, WordStats>();
+  for (const round of rounds) {
+    const entry = stats.get(round.word) ?? { word: round.word, english: round.english, played: 0, failed: 0 };
+    entry.played++;
+    if (!round.solved) entry.failed++;
+    stats.set(round.word, entry);
+  }
+  return Array.from(stats.values())
+    .filter(entry => entry.failed > 0)
+    .sort((a, b) => b.failed - a.failed || b.failed / b.played - a.failed / a.played)
+    .slice(0, limit);
+};
+
+export interface DailyAverage {
+  date: string; // YYYY-MM-DD, local time
+  averages: Partial<Record<Difficulty, number>>; // Mean wrong guesses per round
+}
+
+const toLocalDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Average wrong guesses per round for each difficulty, one entry per day played, oldest first
+export const getDailyAverages = (rounds: RoundEvent[]): DailyAverage[] => {
+  const totals = new Map<string, Partial<Record<Difficulty, { sum: number; count: number }>>>();
+  for (const round of rounds) {
+    const date = toLocalDate(round.timestamp);
+    const day = totals.get(date) ?? {};
+    const entry = day[round.difficulty] ?? { sum: 0, count: 0 };
+    entry.sum += round.wrongGuesses;
+    entry.count++;
+    day[round.difficulty] = entry;
+    totals.set(date, day);
+  }
+  return Array.from(totals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({
+      date,
+      averages: Object.fromEntries(
+        Object.entries(day).map(([difficulty, { sum, count }]) => [difficulty, sum / count])
+      ) as Partial<Record<Difficulty, number>>,
+    }));
+};
+
+export const exportGuessLogCSV = (events: GuessEvent[]): string => {
+  const header = ['timestamp', 'letter', 'correct', 'word', 'difficulty', 'team', 'learner'];
+  const rows = events.map(event => [
+    new Date(event.timestamp).toISOString(),
+    event.letter,
+    event.correct ? 'yes' : 'no',
+    event.word,
+    event.difficulty,
+    event.team,
+    event.learner ?? '',
+  ]);
+  return toCSV([header, ...rows]);
+};
+
+export const downloadGuessLog = (events: GuessEvent[]): void =>
+  downloadFile(`guess-log-${toLocalDate(Date.now())}.csv`, exportGuessLogCSV(events), 'text/csv');
@@ -0,0 +1,82 @@
+import { Difficulty, GameWordData, LearnerProfile, LearnerWordRecord, WordCategory } from '../types';
+import { loadJSON, saveJSON } from '../utils/storage';
+import { createSchedule, scheduleReview, gradeRound } from '../utils/spacedRepetition';
+
+const PROFILES_KEY = 'profiles';
+const ACTIVE_PROFILE_KEY = 'activeProfile';
+
+// Every REVIEW_EVERY_N_ROUNDS-th round replays a due word instead of a new one
+const REVIEW_EVERY_N_ROUNDS = 2;
+
+export const loadProfiles = (): LearnerProfile[] => loadJSON<LearnerProfile[]>(PROFILES_KEY, []);
+
+export const saveProfiles = (profiles: LearnerProfile[]): void => saveJSON(PROFILES_KEY, profiles);
+
+export const loadActiveProfileId = (): string | null => loadJSON<string | null>(ACTIVE_PROFILE_KEY, null);
+
+export const saveActiveProfileId = (id: string | null): void => saveJSON(ACTIVE_PROFILE_KEY, id);
+
+export const createProfile = (name: string, now: number = Date.now()): LearnerProfile => ({
+  id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  createdAt: now,
+  words: {},
+});
+
+export const recordWordResult = (
+  profile: LearnerProfile,
+  wordData: GameWordData,
+  difficulty: Difficulty,
+  solved: boolean,
+  wrongGuesses: number,
+  maxGuesses: number,
+  now: number = Date.now()
+): LearnerProfile => {
+  const previous = profile.words[wordData.word];
+  const base: LearnerWordRecord = previous ?? {
+    wordData,
+    difficulty,
+    seenCount: 0,
+    solvedCount: 0,
+    missedCount: 0,
+    firstSeenAt: now,
+    lastSeenAt: now,
+    schedule: createSchedule(now),
+  };
+
+  const record: LearnerWordRecord = {
+    ...base,
+    wordData,
+    seenCount: base.seenCount + 1,
+    solvedCount: base.solvedCount + (solved ? 1 : 0),
+    missedCount: base.missedCount + (solved ? 0 : 1),
+    lastSeenAt: now,
+    lastSolvedAt: solved ? now : base.lastSolvedAt,
+    lastMissedAt: solved ? base.lastMissedAt : now,
+    schedule: scheduleReview(base.schedule, gradeRound(solved, wrongGuesses, maxGuesses), now),
+  };
+
+  return { ...profile, words: { ...profile.words, [wordData.word]: record } };
+};
+
+export const getDueRecords = (profile: LearnerProfile, now: number = Date.now()): LearnerWordRecord[] =>
+  Object.values(profile.words)
+    .filter(record => record.schedule.dueAt <= now)
+    .sort((a, b) => a.schedule.dueAt - b.schedule.dueAt);
+
+export const isReviewRound = (roundNumber: number): boolean => roundNumber % REVIEW_EVERY_N_ROUNDS === 0;
+
+// The most overdue word at this difficulty that has not been played this series
+export const pickDueWord = (
+  profile: LearnerProfile,
+  difficulty: Difficulty,
+  excludeWords: string[],
+  category: WordCategory | null = null,
+  now: number = Date.now()
+): GameWordData | null => {
+  const due = getDueRecords(profile, now)
+    .find(record => record.difficulty === difficulty
+      && !excludeWords.includes(record.wordData.word)
+      && (!category || record.wordData.category === category));
+  return due ? due.wordData : null;
+};
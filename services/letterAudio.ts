@@ -0,0 +1,62 @@
+import { WordProvider } from '../types';
+import { playPCMAudio, speakTamil } from '../utils/audio';
+
+// Letters must sound as they are tapped, so a clip that isn't ready yet is
+// never waited for: the browser's Tamil voice speaks instead and the clip is
+// fetched in the background for next time. The short wait lets a clip already
+// in the asset cache win without the tap feeling slow.
+const CACHED_CLIP_WAIT_MS = 150;
+
+// Clips already fetched this session; the asset cache keeps them between sessions
+const clips = new Map<string, Promise<string>>();
+const readyClips = new Map<string, string>();
+
+// Letter fetches run one at a time so a replayed word can't burst past the proxy's rate limit
+let fetchQueue: Promise<unknown> = Promise.resolve();
+
+const getLetterClip = (provider: WordProvider, letter: string): Promise<string> => {
+  const key = `${provider.source}:${letter}`;
+  let clip = clips.get(key);
+  if (!clip) {
+    clip = fetchQueue
+      .then(() => provider.fetchAudio(letter))
+      .catch(() => '')
+      .then(data => {
+        readyClips.set(key, data);
+        return data;
+      });
+    fetchQueue = clip;
+    clips.set(key, clip);
+  }
+  return clip;
+};
+
+const wait = (ms: number) => new Promise<string>(resolve => setTimeout(() => resolve(''), ms));
+
+// Says a single letter, using the provider's recording when it has one ready and
+// the browser's Tamil voice otherwise
+export const playLetter = async (provider: WordProvider | null, letter: string, playbackRate = 1): Promise<void> => {
+  let clip = '';
+  if (provider) {
+    const key = `${provider.source}:${letter}`;
+    clip = readyClips.get(key) ?? await Promise.race([getLetterClip(provider, letter), wait(CACHED_CLIP_WAIT_MS)]);
+  }
+  if (clip) return playPCMAudio(clip, { playbackRate });
+  return speakTamil(letter, { playbackRate });
+};
+
+// Plays the word one letter at a time, reporting each index as it starts.
+// `isCancelled` is checked between letters so a new round can stop the replay.
+export const playSyllables = async (
+  provider: WordProvider | null,
+  segments: string[],
+  playbackRate: number,
+  onSyllable: (index: number) => void,
+  isCancelled: () => boolean = () => false,
+): Promise<void> => {
+  for (let i = 0; i < segments.length; i++) {
+    if (isCancelled()) return;
+    onSyllable(i);
+    await playLetter(provider, segments[i], playbackRate);
+  }
+};
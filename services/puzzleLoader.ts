@@ -0,0 +1,145 @@
+import { Difficulty, GameImage, GameWordData, LoadedPuzzle, WordProvider, WordCategory, WordDeckEntry } from '../types';
+import { SafetyBlockError, BadResponseError } from './generationErrors';
+import { findBlockedTerm, findBlockedInWord, loadFilterLists, logRejection } from './contentFilter';
+import { createPlaceholderImage } from '../utils/placeholderImage';
+import wordDeck from '../data/wordDeck.json';
+
+const deck = wordDeck as WordDeckEntry[];
+
+// Words to try before giving up when the filter keeps rejecting them
+const MAX_SAFE_WORD_ATTEMPTS = 3;
+// Only needed if the filter has rejected every noun in the deck
+const LAST_RESORT_DECOY = 'Ball';
+
+// Drawn locally when a picture can't be generated; deck words keep their emoji
+const createFallbackImage = (label: string): string => {
+  const entry = deck.find(item => item.english.toLowerCase() === label.toLowerCase());
+  return createPlaceholderImage(label, entry?.emoji);
+};
+
+// Another decoy noun, from the word's topic when it has one
+const pickReplacementDecoy = (wordData: GameWordData, exclude: string[]): string | null => {
+  const excluded = new Set([wordData.english, ...exclude].map(noun => noun.toLowerCase()));
+  const lists = loadFilterLists();
+  const candidates = deck.filter(entry => !excluded.has(entry.english.toLowerCase()) && !findBlockedTerm(entry.english, lists));
+  const onTopic = candidates.filter(entry => entry.category === wordData.category);
+  const pool = onTopic.length > 0 ? onTopic : candidates;
+  return pool.length > 0 ? pool[Math.floor(Math.random() * pool.length)].english : null;
+};
+
+// Only the picture itself failing is worth a different noun; network and quota
+// problems would fail again, so those go straight to a placeholder
+const isNounProblem = (error: unknown) => error instanceof SafetyBlockError || error instanceof BadResponseError;
+
+const loadDecoyImage = async (provider: WordProvider, wordData: GameWordData, label: string, otherDecoys: string[]): Promise<GameImage> => {
+  try {
+    return { label, isTarget: false, src: await provider.fetchImage(label) };
+  } catch (error) {
+    console.warn(`Decoy picture for "${label}" failed:`, error);
+    if (error instanceof SafetyBlockError) logRejection({ source: 'image', text: label, reason: error.message });
+    const replacement = isNounProblem(error) ? pickReplacementDecoy(wordData, [label, ...otherDecoys]) : null;
+    if (replacement) {
+      try {
+        return { label: replacement, isTarget: false, src: await provider.fetchImage(replacement) };
+      } catch (retryError) {
+        console.warn(`Replacement decoy "${replacement}" failed too:`, retryError);
+        if (retryError instanceof SafetyBlockError) logRejection({ source: 'image', text: replacement, reason: retryError.message });
+      }
+    }
+    return { label, isTarget: false, src: createFallbackImage(label) };
+  }
+};
+
+// A word that fails the content filter, or that Gemini refuses to write, is
+// replaced by another; a due review word that is now blocked is skipped
+const fetchSafeWord = async (
+  provider: WordProvider,
+  difficulty: Difficulty,
+  category: WordCategory | null,
+  previousWords: string[],
+  reviewWord: GameWordData | null
+): Promise<{ wordData: GameWordData; isReview: boolean }> => {
+  const lists = loadFilterLists();
+  if (reviewWord) {
+    const blocked = findBlockedInWord(reviewWord, lists);
+    if (!blocked) return { wordData: reviewWord, isReview: true };
+    logRejection({ source: 'word', text: `${reviewWord.word} (${reviewWord.english})`, reason: `contains the blocked term "${blocked}"` });
+  }
+
+  const skipped: string[] = [];
+  for (let attempt = 1; attempt <= MAX_SAFE_WORD_ATTEMPTS; attempt++) {
+    let wordData: GameWordData;
+    try {
+      wordData = await provider.fetchWord(difficulty, [...previousWords, ...skipped], category);
+    } catch (error) {
+      if (!(error instanceof SafetyBlockError)) throw error;
+      logRejection({ source: 'word', text: `${difficulty} word${category ? ` about ${category}` : ''}`, reason: error.message });
+      continue;
+    }
+
+    const blocked = findBlockedInWord(wordData, lists);
+    if (!blocked) return { wordData, isReview: false };
+    logRejection({ source: 'word', text: `${wordData.word} (${wordData.english})`, reason: `contains the blocked term "${blocked}"` });
+    skipped.push(wordData.word);
+  }
+  throw new SafetyBlockError(`No suitable word found in ${MAX_SAFE_WORD_ATTEMPTS} tries`);
+};
+
+// Decoy nouns are drawn as pictures, so blocked ones are swapped before any image is requested
+const screenDecoys = (wordData: GameWordData): string[] => {
+  const lists = loadFilterLists();
+  const decoys = [...wordData.distractors];
+  decoys.forEach((noun, index) => {
+    const blocked = findBlockedTerm(noun, lists);
+    if (!blocked) return;
+    logRejection({ source: 'decoy', text: noun, reason: `contains the blocked term "${blocked}"` });
+    decoys[index] = pickReplacementDecoy(wordData, decoys) ?? LAST_RESORT_DECOY;
+  });
+  return decoys;
+};
+
+// Fetches a word plus its three pictures and pronunciation, ready to play.
+// Only the word itself is essential: failed pictures are swapped or drawn
+// locally, and failed audio leaves the round without pronunciation.
+// A `reviewWord` from the learner's history is used instead of fetching a new one.
+export const generatePuzzle = async (
+  provider: WordProvider,
+  difficulty: Difficulty,
+  category: WordCategory | null,
+  previousWords: string[],
+  reviewWord: GameWordData | null = null
+): Promise<LoadedPuzzle> => {
+  // 1. Fetch Word Data with difficulty, topic and history, then screen it
+  const { wordData, isReview } = await fetchSafeWord(provider, difficulty, category, previousWords, reviewWord);
+
+  // 2. Generate Images and Audio in Parallel
+  const targetPromise = provider.fetchImage(wordData.english)
+    .catch(error => {
+      console.warn(`Picture for "${wordData.english}" failed:`, error);
+      if (error instanceof SafetyBlockError) logRejection({ source: 'image', text: wordData.english, reason: error.message });
+      return createFallbackImage(wordData.english);
+    })
+    .then((src): GameImage => ({ label: wordData.english, isTarget: true, src }));
+
+  const [first, second] = screenDecoys(wordData);
+  const decoyPromises = [
+    loadDecoyImage(provider, wordData, first, [second]),
+    loadDecoyImage(provider, wordData, second, [first]),
+  ];
+
+  // Fetch audio for the target word
+  const audioPromise = provider.fetchAudio(wordData.word).catch(error => {
+    console.warn(`Pronunciation for "${wordData.word}" failed:`, error);
+    if (error instanceof SafetyBlockError) logRejection({ source: 'audio', text: wordData.word, reason: error.message });
+    return "";
+  });
+
+  const [images, audioData] = await Promise.all([
+    Promise.all([targetPromise, ...decoyPromises]),
+    audioPromise
+  ]);
+
+  // Keep the word's decoys in step with any swapped pictures, for the review and exports
+  const distractors = images.filter(image => !image.isTarget).map(image => image.label);
+  return { wordData: { ...wordData, distractors }, images, audioData, isReview };
+};
@@ -0,0 +1,18 @@
+import { SeriesSettings, DEFAULT_SETTINGS } from '../types';
+import { loadJSON, saveJSON } from '../utils/storage';
+
+const SETTINGS_KEY = 'settings';
+
+// Saved settings are merged over the defaults so newly added options get sensible values
+export const loadSettings = (): SeriesSettings => {
+  const saved = loadJSON<Partial<SeriesSettings>>(SETTINGS_KEY, {});
+  return {
+    ...DEFAULT_SETTINGS,
+    ...saved,
+    guessLimits: { ...DEFAULT_SETTINGS.guessLimits, ...saved.guessLimits },
+    hintCosts: { ...DEFAULT_SETTINGS.hintCosts, ...saved.hintCosts },
+    turnSeconds: { ...DEFAULT_SETTINGS.turnSeconds, ...saved.turnSeconds },
+  };
+};
+
+export const saveSettings = (settings: SeriesSettings): void => saveJSON(SETTINGS_KEY, settings);
@@ -0,0 +1,188 @@
+import { WordList, WordListEntry, GameWordData, WordDeckEntry, isWordCategory } from '../types';
+import { buildDistractorLetters } from './wordValidation';
+import { loadJSON, removeJSON } from '../utils/storage';
+import { idbGetAll, idbPut, idbDelete } from '../utils/idb';
+import { parseCSV, toCSV } from '../utils/csv';
+import { segmentText, isTamilText } from '../utils/tamil';
+import { toRoman } from '../utils/transliteration';
+import { downloadFile } from '../utils/download';
+import wordDeck from '../data/wordDeck.json';
+
+// Lists used to live in localStorage, where a few pictures' data URLs filled the quota
+const LEGACY_WORD_LISTS_KEY = 'wordLists';
+
+// Separates multiple values inside one CSV cell, e.g. "Cat|Dog"
+const CSV_LIST_SEPARATOR = '|';
+
+// Accepted spellings for each column, in CSV headers and JSON keys
+const FIELD_ALIASES: Record<keyof WordListEntry, string[]> = {
+  word: ['word', 'tamil'],
+  english: ['english', 'meaning'],
+  transliteration: ['transliteration', 'pronunciation'],
+  distractors: ['distractors', 'decoys'],
+  distractorLetters: ['distractorletters', 'letters'],
+  image: ['image', 'imageurl', 'picture'],
+  category: ['category', 'topic'],
+};
+
+const DECK_NOUNS = (wordDeck as WordDeckEntry[]).map(entry => entry.english);
+
+export type WordListFormat = 'csv' | 'json';
+
+export interface WordListImportResult {
+  list: WordList | null;
+  errors: string[]; // Rows that were skipped, and why
+}
+
+interface StoredWordList {
+  key: string; // The list's id
+  list: WordList;
+}
+
+export const saveWordList = (list: WordList): Promise<void> =>
+  idbPut<StoredWordList>('wordLists', { key: list.id, list });
+
+export const deleteWordList = (id: string): Promise<void> => idbDelete('wordLists', id);
+
+// Oldest first, moving over any lists still in localStorage
+export const loadWordLists = async (): Promise<WordList[]> => {
+  const legacy = loadJSON<WordList[]>(LEGACY_WORD_LISTS_KEY, []);
+  if (legacy.length > 0) {
+    await Promise.all(legacy.map(saveWordList));
+    removeJSON(LEGACY_WORD_LISTS_KEY);
+  }
+  const stored = await idbGetAll<StoredWordList>('wordLists');
+  return stored.map(entry => entry.list).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createWordList = (name: string, words: WordListEntry[], now: number = Date.now()): WordList => ({
+  id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim() || 'Untitled list',
+  createdAt: now,
+  words,
+});
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z]/g, '');
+
+const findField = (record: Record<string, unknown>, field: keyof WordListEntry): unknown => {
+  const key = Object.keys(record).find(k => FIELD_ALIASES[field].includes(normalizeKey(k)));
+  return key ? record[key] : undefined;
+};
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const asList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(asText).filter(Boolean);
+  return asText(value).split(CSV_LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+};
+
+const pickRandom = <T>(items: T[], count: number): T[] =>
+  [...items].sort(() => Math.random() - 0.5).slice(0, count);
+
+// Validates one imported row and fills in whatever the teacher left out
+const completeEntry = (record: Record<string, unknown>, nounPool: string[]): WordListEntry | string => {
+  const word = asText(findField(record, 'word'));
+  const english = asText(findField(record, 'english'));
+  if (!word) return 'the Tamil word is missing';
+  if (!isTamilText(word)) return `"${word}" is not written only in Tamil script`;
+
+  const segments = segmentText(word);
+  if (segments.length < 2) return `"${word}" needs at least 2 letters to play`;
+  if (!english) return `"${word}" has no English meaning`;
+
+  let distractors = asList(findField(record, 'distractors'))
+    .filter(noun => noun.toLowerCase() !== english.toLowerCase())
+    .slice(0, 2);
+  if (distractors.length < 2) {
+    const candidates = nounPool.filter(noun => noun.toLowerCase() !== english.toLowerCase() && !distractors.includes(noun));
+    distractors = [...distractors, ...pickRandom(candidates, 2 - distractors.length)];
+  }
+
+  const image = asText(findField(record, 'image'));
+  // Unknown topics are dropped rather than rejecting the word
+  const category = asText(findField(record, 'category')).toLowerCase();
+  return {
+    word,
+    english,
+    transliteration: asText(findField(record, 'transliteration')) || toRoman(word),
+    distractors,
+    distractorLetters: buildDistractorLetters(asList(findField(record, 'distractorLetters')), segments),
+    ...(image ? { image } : {}),
+    ...(isWordCategory(category) ? { category } : {}),
+  };
+};
+
+const csvToRecords = (text: string): Record<string, unknown>[] => {
+  const rows = parseCSV(text);
+  if (rows.length === 0) return [];
+
+  // Without a recognisable header, columns are read as word, english, transliteration, image
+  const hasHeader = rows[0].some(cell => FIELD_ALIASES.word.includes(normalizeKey(cell)));
+  const headers = hasHeader ? rows[0] : ['word', 'english', 'transliteration', 'image'];
+  return (hasHeader ? rows.slice(1) : rows).map(row =>
+    Object.fromEntries(headers.map((header, i) => [header, row[i] ?? '']))
+  );
+};
+
+export const importWordList = (fileName: string, text: string): WordListImportResult => {
+  const isJson = fileName.toLowerCase().endsWith('.json') || text.trim().startsWith('[') || text.trim().startsWith('{');
+  let name = fileName.replace(/\.[^.]+$/, '');
+  let records: Record<string, unknown>[];
+
+  try {
+    if (isJson) {
+      const parsed = JSON.parse(text);
+      // Either a bare array of words or an exported { name, words } list
+      records = Array.isArray(parsed) ? parsed : parsed?.words;
+      if (typeof parsed?.name === 'string') name = parsed.name;
+      if (!Array.isArray(records)) return { list: null, errors: ['The JSON file must contain a list of words'] };
+    } else {
+      records = csvToRecords(text);
+    }
+  } catch {
+    return { list: null, errors: [`Could not read ${fileName} as ${isJson ? 'JSON' : 'CSV'}`] };
+  }
+
+  const nounPool = Array.from(new Set([
+    ...records.map(record => asText(findField(record ?? {}, 'english'))).filter(Boolean),
+    ...DECK_NOUNS,
+  ]));
+
+  const errors: string[] = [];
+  const words: WordListEntry[] = [];
+  records.forEach((record, index) => {
+    const result = completeEntry(record ?? {}, nounPool);
+    if (typeof result === 'string') {
+      errors.push(`Row ${index + 1}: ${result}`);
+    } else if (words.some(entry => entry.word === result.word)) {
+      errors.push(`Row ${index + 1}: "${result.word}" is already in the list`);
+    } else {
+      words.push(result);
+    }
+  });
+
+  return { list: words.length > 0 ? createWordList(name, words) : null, errors };
+};
+
+export const exportWordList = (list: { name: string; words: (GameWordData | WordListEntry)[] }, format: WordListFormat): string => {
+  if (format === 'json') {
+    return JSON.stringify({ name: list.name, words: list.words }, null, 2);
+  }
+
+  const header = ['word', 'english', 'transliteration', 'distractors', 'distractorLetters', 'image', 'category'];
+  const rows = list.words.map(entry => [
+    entry.word,
+    entry.english,
+    entry.transliteration,
+    entry.distractors.join(CSV_LIST_SEPARATOR),
+    entry.distractorLetters.join(CSV_LIST_SEPARATOR),
+    'image' in entry && entry.image ? entry.image : '',
+    entry.category ?? '',
+  ]);
+  return toCSV([header, ...rows]);
+};
+
+export const downloadWordList = (list: { name: string; words: (GameWordData | WordListEntry)[] }, format: WordListFormat): void => {
+  const safeName = list.name.replace(/[^\w\u0B80-\u0BFF -]/g, '').trim() || 'words';
+  downloadFile(`${safeName}.${format}`, exportWordList(list, format), format === 'json' ? 'application/json' : 'text/csv');
+};
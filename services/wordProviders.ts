@@ -0,0 +1,94 @@
+import { fetchWordData, generateImageForWord, generateAudioForWord } from './geminiService';
+import { withAssetCache } from './assetCache';
+import { createPlaceholderImage } from '../utils/placeholderImage';
+import { Difficulty, GameWordData, WordDeckEntry, WordProvider, WordSource, WordList, WordCategory, GRAPHEME_RANGES } from '../types';
+import { segmentText } from '../utils/tamil';
+import wordDeck from '../data/wordDeck.json';
+
+const deck = wordDeck as WordDeckEntry[];
+
+const pickRandom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+// In a themed series the picture decoys come from the same topic, so the
+// picture round can't be solved just by spotting the odd one out
+const pickCategoryDistractors = (entry: WordDeckEntry, category: WordCategory | null): string[] => {
+  if (!category) return entry.distractors;
+  const others = deck.filter(item => item.category === category && item.word !== entry.word);
+  if (others.length < 2) return entry.distractors;
+  return [...others].sort(() => Math.random() - 0.5).slice(0, 2).map(item => item.english);
+};
+
+export const geminiWordProvider: WordProvider = {
+  source: WordSource.GEMINI,
+  name: 'Gemini AI',
+  fetchWord: fetchWordData,
+  fetchImage: generateImageForWord,
+  fetchAudio: generateAudioForWord,
+};
+
+// Curated words bundled with the app, so the game runs without a key or network
+export const offlineWordProvider: WordProvider = {
+  source: WordSource.OFFLINE,
+  name: 'Offline Word Deck',
+  fetchWord: async (difficulty: Difficulty, previousWords: string[] = [], category: WordCategory | null = null): Promise<GameWordData> => {
+    const inCategory = category ? deck.filter(entry => entry.category === category) : deck;
+    // Small topics may have no words at this difficulty; staying on topic matters more
+    const atDifficulty = inCategory.filter(entry => entry.difficulty === difficulty);
+    const candidates = atDifficulty.length > 0 || !category ? atDifficulty : inCategory;
+    const unused = candidates.filter(entry => !previousWords.includes(entry.word));
+    // Once every word has been played, start again from the full list
+    const pool = unused.length > 0 ? unused : candidates;
+    if (pool.length === 0) throw new Error(`No offline words for difficulty ${difficulty}`);
+
+    const entry = pickRandom(pool);
+    const { word, english, transliteration, distractorLetters } = entry;
+    return { word, english, transliteration, distractors: pickCategoryDistractors(entry, category), distractorLetters, category: entry.category };
+  },
+  fetchImage: async (label: string): Promise<string> => {
+    const entry = deck.find(item => item.english.toLowerCase() === label.toLowerCase());
+    return createPlaceholderImage(label, entry?.emoji);
+  },
+  // No pronunciation audio is bundled
+  fetchAudio: async () => "",
+};
+
+// A teacher's word list. Pictures the teacher did not supply, and all audio,
+// come from `assetProvider` (Gemini when online, the offline deck otherwise).
+export const createWordListProvider = (list: WordList, assetProvider: WordProvider): WordProvider => ({
+  source: WordSource.WORD_LIST,
+  name: list.name,
+  fetchWord: async (difficulty: Difficulty, previousWords: string[] = [], category: WordCategory | null = null): Promise<GameWordData> => {
+    // Lists without topic tags are treated as a topic of their own
+    const tagged = category ? list.words.filter(entry => entry.category === category) : [];
+    const words = tagged.length > 0 ? tagged : list.words;
+    const unused = words.filter(entry => !previousWords.includes(entry.word));
+    const pool = unused.length > 0 ? unused : words;
+    if (pool.length === 0) throw new Error(`The word list "${list.name}" is empty`);
+
+    // Prefer words whose length suits the difficulty, but never refuse to play the list
+    const { min, max } = GRAPHEME_RANGES[difficulty];
+    const suited = pool.filter(entry => {
+      const length = segmentText(entry.word).length;
+      return length >= min && length <= max;
+    });
+    const candidates = suited.length > 0 ? suited : pool;
+
+    const { word, english, transliteration, distractors, distractorLetters, category: wordCategory } = pickRandom(candidates);
+    return { word, english, transliteration, distractors, distractorLetters, ...(wordCategory ? { category: wordCategory } : {}) };
+  },
+  fetchImage: async (label: string): Promise<string> => {
+    const entry = list.words.find(item => item.english.toLowerCase() === label.toLowerCase());
+    return entry?.image || assetProvider.fetchImage(label);
+  },
+  fetchAudio: (word: string) => assetProvider.fetchAudio(word),
+});
+
+export type BuiltInWordSource = WordSource.GEMINI | WordSource.OFFLINE;
+
+const PROVIDERS: Record<BuiltInWordSource, WordProvider> = {
+  // Generated assets are reused across rounds; offline pictures are drawn instantly anyway
+  [WordSource.GEMINI]: withAssetCache(geminiWordProvider),
+  [WordSource.OFFLINE]: offlineWordProvider,
+};
+
+export const getWordProvider = (source: BuiltInWordSource): WordProvider => PROVIDERS[source];
@@ -0,0 +1,106 @@
+import { Difficulty, GameWordData, GRAPHEME_RANGES, WordCategory, WORD_CATEGORIES, isWordCategory } from '../types';
+import { segmentText, isTamilText, isSingleGrapheme, COMMON_LETTERS } from '../utils/tamil';
+import { BadResponseError } from './generationErrors';
+
+// Keep the keyboard big enough that the target letters are not obvious
+const MIN_DISTRACTOR_LETTERS = 8;
+const MAX_DISTRACTOR_LETTERS = 12;
+
+export class WordValidationError extends BadResponseError {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid word data: ${issues.join('; ')}`);
+    this.name = 'WordValidationError';
+    this.issues = issues;
+  }
+}
+
+const asTrimmedString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asTrimmedString).filter(Boolean) : [];
+
+const pickDistractors = (value: unknown, english: string): string[] => {
+  const seen = new Set([english.toLowerCase()]);
+  const distractors: string[] = [];
+  for (const noun of asStringArray(value)) {
+    const normalized = noun.toLowerCase();
+    if (seen.has(normalized)) continue;
+    seen.add(normalized);
+    distractors.push(noun);
+  }
+  return distractors.slice(0, 2);
+};
+
+// Keep single Tamil graphemes that are not in the target, then pad from the common letters
+export const buildDistractorLetters = (value: unknown, targetSegments: string[]): string[] => {
+  const excluded = new Set(targetSegments);
+  const letters: string[] = [];
+  const add = (letter: string) => {
+    if (letters.length >= MAX_DISTRACTOR_LETTERS || excluded.has(letter)) return;
+    excluded.add(letter);
+    letters.push(letter);
+  };
+
+  asStringArray(value)
+    .filter(letter => isTamilText(letter) && isSingleGrapheme(letter))
+    .forEach(add);
+
+  if (letters.length < MIN_DISTRACTOR_LETTERS) {
+    const padding = [...COMMON_LETTERS].sort(() => Math.random() - 0.5);
+    for (const letter of padding) {
+      if (letters.length >= MIN_DISTRACTOR_LETTERS) break;
+      add(letter);
+    }
+  }
+  return letters;
+};
+
+// Checks a raw word response against the game's rules, repairing what can be
+// repaired locally and throwing a WordValidationError listing the rest
+export const validateWordData = (raw: unknown, difficulty: Difficulty, category: WordCategory | null = null): GameWordData => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const issues: string[] = [];
+
+  const word = asTrimmedString(data.word);
+  const english = asTrimmedString(data.english);
+  const transliteration = asTrimmedString(data.transliteration);
+  const segments = segmentText(word);
+
+  if (!word) {
+    issues.push('"word" is missing');
+  } else if (!isTamilText(word)) {
+    issues.push(`"${word}" is not written only in Tamil script`);
+  } else {
+    const { min, max } = GRAPHEME_RANGES[difficulty];
+    if (segments.length < min || segments.length > max) {
+      issues.push(`"${word}" has ${segments.length} letters, but ${difficulty} words need ${min} to ${max}`);
+    }
+  }
+
+  if (!english) issues.push('"english" is missing');
+  if (!transliteration) issues.push('"transliteration" is missing');
+
+  const distractors = pickDistractors(data.distractors, english);
+  if (distractors.length < 2) {
+    issues.push('"distractors" needs 2 different English nouns that are not the answer');
+  }
+
+  // The model labels its own answer; a label outside the requested topic means it drifted
+  const wordCategory = asTrimmedString(data.category).toLowerCase();
+  if (category && wordCategory !== category) {
+    issues.push(`"${word || english}" is not in the "${category}" (${WORD_CATEGORIES[category].label}) category`);
+  }
+
+  if (issues.length > 0) throw new WordValidationError(issues);
+
+  return {
+    word,
+    english,
+    transliteration,
+    distractors,
+    distractorLetters: buildDistractorLetters(data.distractorLetters, segments),
+    ...(isWordCategory(wordCategory) ? { category: wordCategory } : {}),
+  };
+};
@@ -1,9 +1,32 @@
+export type WordCategory = 'animals' | 'food' | 'body' | 'nature' | 'home' | 'transport' | 'festivals';
+
+export const WORD_CATEGORIES: Record<WordCategory, { label: string; emoji: string }> = {
+  animals: { label: 'Animals', emoji: '🐾' },
+  food: { label: 'Fruits & Food', emoji: '🍎' },
+  body: { label: 'Body Parts', emoji: '👂' },
+  nature: { label: 'Nature & Sky', emoji: '🌳' },
+  home: { label: 'Home & Toys', emoji: '🧸' },
+  transport: { label: 'Transport', emoji: '🚲' },
+  festivals: { label: 'Festivals', emoji: '🪔' },
+};
+
+export const isWordCategory = (value: unknown): value is WordCategory =>
+  typeof value === 'string' && Object.hasOwn(WORD_CATEGORIES, value);
+
 export interface GameWordData {
   word: string; // The Tamil word (e.g., 'யானை')
   english: string; // English meaning (e.g., 'Elephant')
   transliteration: string; // Phonetic (e.g., 'Yanai')
   distractors: string[]; // List of 2 other English nouns for image generation
   distractorLetters: string[]; // List of random Tamil letters for the keyboard
+  category?: WordCategory; // Topic, when known
+}
+
+// An entry in the bundled offline word deck
+export interface WordDeckEntry extends GameWordData {
+  difficulty: Difficulty;
+  category: WordCategory;
+  emoji: string; // Used to draw the offline picture card
 }
 
 export interface GameImage {
@@ -12,6 +35,14 @@ export interface GameImage {
   isTarget: boolean;
 }
 
+// Everything a round needs before it can start
+export interface LoadedPuzzle {
+  wordData: GameWordData;
+  images: GameImage[];
+  audioData: string;
+  isReview: boolean; // Replayed from the learner's history rather than newly fetched
+}
+
 export enum GameStatus {
   IDLE = 'IDLE',
   DIFFICULTY_SELECT = 'DIFFICULTY_SELECT',
@@ -34,3 +65,235 @@ export const GUESS_LIMITS: Record<Difficulty, number> = {
   [Difficulty.MEDIUM]: 6,
   [Difficulty.HARD]: 4,
 };
+
+// The picture that fills up with each wrong guess
+export type ProgressTheme = 'hangman' | 'balloons' | 'flower' | 'snowman';
+
+export const PROGRESS_THEMES: Record<ProgressTheme, { label: string; emoji: string }> = {
+  hangman: { label: 'Hangman', emoji: '🪢' },
+  balloons: { label: 'Balloons', emoji: '🎈' },
+  flower: { label: 'Flower', emoji: '🌸' },
+  snowman: { label: 'Snowman', emoji: '⛄' },
+};
+
+// Default seconds per turn when the turn timer is on; younger players get longer
+export const TURN_SECONDS: Record<Difficulty, number> = {
+  [Difficulty.EASY]: 45,
+  [Difficulty.MEDIUM]: 30,
+  [Difficulty.HARD]: 20,
+};
+
+// Allowed word length in graphemes (as segmented for the word slots)
+export const GRAPHEME_RANGES: Record<Difficulty, { min: number; max: number }> = {
+  [Difficulty.EASY]: { min: 2, max: 3 },
+  [Difficulty.MEDIUM]: { min: 3, max: 5 },
+  [Difficulty.HARD]: { min: 5, max: 12 },
+};
+
+export enum WordSource {
+  GEMINI = 'GEMINI',
+  OFFLINE = 'OFFLINE',
+  WORD_LIST = 'WORD_LIST'
+}
+
+// Why a Gemini request failed, as reported by the server's `kind` field
+export type GenerationErrorKind = 'missing-key' | 'quota' | 'safety' | 'network' | 'timeout' | 'bad-response';
+
+// Where a round's word, pictures and pronunciation come from
+export interface WordProvider {
+  source: WordSource;
+  name: string;
+  // `category` null means any topic
+  fetchWord: (difficulty: Difficulty, previousWords: string[], category: WordCategory | null) => Promise<GameWordData>;
+  fetchImage: (label: string) => Promise<string>; // data URL
+  fetchAudio: (word: string) => Promise<string>; // base64 PCM, "" when there is none
+}
+
+// SM-2 spaced-repetition state for one word
+export interface ReviewSchedule {
+  easiness: number;
+  interval: number; // days
+  repetitions: number;
+  dueAt: number; // epoch ms
+}
+
+export interface LearnerWordRecord {
+  wordData: GameWordData;
+  difficulty: Difficulty;
+  seenCount: number;
+  solvedCount: number;
+  missedCount: number;
+  firstSeenAt: number;
+  lastSeenAt: number;
+  lastSolvedAt?: number;
+  lastMissedAt?: number;
+  schedule: ReviewSchedule;
+}
+
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  words: Record<string, LearnerWordRecord>; // Keyed by the Tamil word
+}
+
+// One guess, logged for the teacher's analytics dashboard
+export interface GuessEvent {
+  timestamp: number;
+  letter: string;
+  correct: boolean;
+  word: string;
+  difficulty: Difficulty;
+  team: string; // Team name at the time
+  learner: string | null; // Active learner profile name, if any
+}
+
+// The outcome of one round, logged alongside the guesses
+export interface RoundEvent {
+  timestamp: number;
+  word: string;
+  english: string;
+  difficulty: Difficulty;
+  solved: boolean;
+  wrongGuesses: number;
+}
+
+export type TeamColor = 'blue' | 'orange' | 'green' | 'purple' | 'pink' | 'teal' | 'red' | 'yellow';
+
+export const TEAM_COLORS: TeamColor[] = ['blue', 'orange', 'green', 'purple', 'pink', 'teal', 'red', 'yellow'];
+
+export interface Team {
+  id: string;
+  name: string;
+  color: TeamColor;
+}
+
+export const MAX_TEAMS = 6;
+
+export const DEFAULT_TEAMS: Team[] = [
+  { id: 'A', name: 'Team A', color: 'blue' },
+  { id: 'B', name: 'Team B', color: 'orange' },
+];
+
+export type HintType = 'audio' | 'transliteration' | 'reveal' | 'eliminate';
+
+export const HINT_TYPES: HintType[] = ['audio', 'transliteration', 'reveal', 'eliminate'];
+
+// What a hint costs the team that asks for it; an amount of 0 makes it free
+export interface HintCost {
+  kind: 'points' | 'guesses';
+  amount: number;
+}
+
+// Teacher-configurable rules for a series, persisted between sessions
+export interface SeriesSettings {
+  totalRounds: number;
+  guessLimits: Record<Difficulty, number>; // Wrong guesses allowed per round
+  correctGuessKeepsTurn: boolean;
+  pointsPerWin: number;
+  pictureBonusPoints: number; // Awarded for tapping the matching picture
+  letterFamilyMode: boolean; // Guess mei and uyir separately instead of whole letters
+  fullKeyboard: boolean; // MEDIUM/HARD use the whole alphabet chart instead of a small letter set
+  hintCosts: Record<HintType, HintCost>;
+  letterSounds: boolean; // Say each letter as it is guessed
+  playbackRate: number; // Speed for pronunciation audio, 1 is normal
+  turnTimer: boolean; // Each turn gets a countdown and passes on when it runs out
+  turnSeconds: Record<Difficulty, number>;
+  timeoutCountsAsWrong: boolean; // Running out of time also costs a wrong guess
+  progressTheme: ProgressTheme;
+}
+
+export const DEFAULT_SETTINGS: SeriesSettings = {
+  totalRounds: 6,
+  guessLimits: GUESS_LIMITS,
+  correctGuessKeepsTurn: true,
+  pointsPerWin: 1,
+  pictureBonusPoints: 1,
+  letterFamilyMode: false,
+  fullKeyboard: false,
+  // Teams start on 0 points, so hints priced in points start out free
+  hintCosts: {
+    audio: { kind: 'points', amount: 0 },
+    transliteration: { kind: 'points', amount: 0 },
+    reveal: { kind: 'guesses', amount: 1 },
+    eliminate: { kind: 'points', amount: 0 },
+  },
+  letterSounds: true,
+  playbackRate: 1,
+  turnTimer: false,
+  turnSeconds: TURN_SECONDS,
+  timeoutCountsAsWrong: false,
+  progressTheme: 'hangman',
+};
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25];
+
+export interface WordListEntry extends GameWordData {
+  image?: string; // URL or data URL supplied by the teacher
+}
+
+// A teacher-authored vocabulary list, e.g. one term's curriculum words
+export interface WordList {
+  id: string;
+  name: string;
+  createdAt: number;
+  words: WordListEntry[];
+}
+
+// Teacher additions to the built-in content filter. Allowed terms override
+// the built-in blocklist, e.g. "knife" for a kitchen topic.
+export interface ContentFilterLists {
+  blocked: string[];
+  allowed: string[];
+}
+
+// Something kept off the screen by the content filter or by Gemini's own safety checks
+export interface ContentRejection {
+  timestamp: number;
+  source: 'word' | 'decoy' | 'image' | 'audio';
+  text: string; // The word, noun or label that was rejected
+  reason: string;
+}
+
+// Classroom mode: what student devices see of the host's game. The answer itself is never sent.
+export interface ClassroomBoard {
+  status: GameStatus;
+  roundNumber: number;
+  totalRounds: number;
+  teams: Team[];
+  scores: Record<string, number>;
+  currentTeam: string;
+  clue: string | null;
+  slots: (string | null)[]; // Revealed letters, null while still hidden
+  keys: string[]; // Keyboard letters; with the full keyboard, only the extras the chart can't build
+  fullKeyboard: boolean;
+  letterFamilyMode: boolean;
+  usedKeys: string[];
+  wrongGuesses: number;
+  maxGuesses: number;
+  progressTheme: ProgressTheme;
+}
+
+// Messages sent to the classroom server
+export type ClassroomClientMessage =
+  | { type: 'host'; code?: string; hostToken?: string } // code + token reclaim a room after reconnecting
+  | { type: 'join'; code: string; clientId: string }
+  | { type: 'board'; board: ClassroomBoard } // Host → students
+  | { type: 'pick-team'; teamId: string } // Student, once per series
+  | { type: 'guess'; letter: string }; // Student → host, for the team the server has on record
+
+// Messages sent by the classroom server
+export type ClassroomServerMessage =
+  | { type: 'hosted'; code: string; hostToken: string; joinUrls: string[] }
+  | { type: 'joined'; code: string }
+  | { type: 'team'; teamId: string | null } // To a student: the team their device plays for
+  | { type: 'board'; board: ClassroomBoard }
+  | { type: 'guess'; teamId: string; letter: string; clientId: string }
+  | { type: 'players'; count: number } // To the host
+  | { type: 'host-status'; online: boolean } // To students
+  | { type: 'error'; message: string };
+
+export const CLASSROOM_PATH = '/classroom';
+
+// A student device's team is fixed while a series is running, so it can't guess on other teams' turns
+export const CLASSROOM_TEAM_CHANGE_STATUSES = [GameStatus.IDLE, GameStatus.DIFFICULTY_SELECT, GameStatus.SERIES_OVER];
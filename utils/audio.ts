@@ -33,7 +33,12 @@ async function decodeAudioData(
 
 let audioContext: AudioContext | null = null;
 
-export const playPCMAudio = async (base64String: string) => {
+export interface PlaybackOptions {
+  playbackRate?: number; // 1 is normal speed
+}
+
+// Plays base64 PCM from Gemini TTS; resolves once playback has finished (or failed)
+export const playPCMAudio = async (base64String: string, { playbackRate = 1 }: PlaybackOptions = {}): Promise<void> => {
   if (!base64String) return;
 
   try {
@@ -54,9 +59,30 @@ export const playPCMAudio = async (base64String: string) => {
 
     const source = audioContext.createBufferSource();
     source.buffer = audioBuffer;
+    source.playbackRate.value = playbackRate;
     source.connect(outputNode);
-    source.start();
+    await new Promise<void>(resolve => {
+      source.onended = () => resolve();
+      source.start();
+    });
   } catch (e) {
     console.error("Error playing audio:", e);
   }
-};
\ No newline at end of file
+};
+
+// Browser text-to-speech fallback for when no generated clip is available (e.g. offline).
+// Resolves when speaking ends; silently does nothing without a Tamil-capable engine.
+export const speakTamil = (text: string, { playbackRate = 1 }: PlaybackOptions = {}): Promise<void> => {
+  if (!text || typeof window === 'undefined' || !window.speechSynthesis) return Promise.resolve();
+
+  return new Promise(resolve => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'ta-IN';
+    utterance.rate = playbackRate;
+    const voice = window.speechSynthesis.getVoices().find(v => v.lang.startsWith('ta'));
+    if (voice) utterance.voice = voice;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  });
+};
@@ -0,0 +1,12 @@
+// Saves generated text (CSV, JSON, HTML) as a file through the browser
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
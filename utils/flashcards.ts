@@ -0,0 +1,61 @@
+import { RoundRecord } from './gameEngine';
+import { downloadFile } from './download';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+// Each card is a row to fold down the middle: picture on the front, word on the back
+const renderCard = ({ wordData, image }: RoundRecord): string => `
+  <div class="card">
+    <div class="side front">
+      ${image ? `<img src="${escapeHtml(image.src)}" alt="${escapeHtml(wordData.english)}">` : `<p class="english">${escapeHtml(wordData.english)}</p>`}
+    </div>
+    <div class="side back">
+      <p class="tamil">${escapeHtml(wordData.word)}</p>
+      <p class="roman">${escapeHtml(wordData.transliteration)}</p>
+      <p class="english">${escapeHtml(wordData.english)}</p>
+    </div>
+  </div>`;
+
+// A standalone, print-ready page of flashcards for the words in a series
+export const buildFlashcardSheet = (title: string, rounds: RoundRecord[]): string => `<!DOCTYPE html>
+<html lang="ta">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<link href="https://fonts.googleapis.com/css2?family=Baloo+Thambi+2:wght@400;700&display=swap" rel="stylesheet">
+<style>
+  body { font-family: 'Baloo Thambi 2', sans-serif; margin: 1.5cm; color: #1f2937; }
+  h1 { font-size: 18pt; margin: 0 0 0.5cm; }
+  .hint { color: #6b7280; font-size: 10pt; margin-bottom: 0.8cm; }
+  .card { display: flex; height: 6cm; border: 1px solid #9ca3af; margin-bottom: 0.6cm; break-inside: avoid; page-break-inside: avoid; }
+  .side { flex: 1; display: flex; flex-direction: column; align-items: center; justify-content: center; padding: 0.4cm; }
+  .front { border-right: 2px dashed #9ca3af; }
+  .front img { max-width: 100%; max-height: 100%; object-fit: contain; }
+  .tamil { font-size: 36pt; font-weight: 700; margin: 0; }
+  .roman { font-size: 16pt; margin: 0; }
+  .english { font-size: 12pt; color: #6b7280; margin: 0.2cm 0 0; }
+  @media print { .hint { display: none; } body { margin: 1cm; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="hint">Print, cut out each card and fold along the dashed line.</p>
+${rounds.map(renderCard).join('\n')}
+</body>
+</html>`;
+
+// Opens the sheet in a new tab ready to print (or save as PDF), falling back to a
+// download when pop-ups are blocked
+export const printFlashcards = (title: string, rounds: RoundRecord[]): void => {
+  const html = buildFlashcardSheet(title, rounds);
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    const safeName = title.replace(/[^\w\u0B80-\u0BFF -]/g, '').trim() || 'flashcards';
+    downloadFile(`${safeName}.html`, html, 'text/html');
+    return;
+  }
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.addEventListener('load', () => printWindow.print());
+};
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import { gameReducer, initialGameState, GameState, GameAction, isHintAvailable, getRevealableSlots } from './gameEngine';
+import { GameStatus, Difficulty, DEFAULT_SETTINGS, DEFAULT_TEAMS, LoadedPuzzle, SeriesSettings } from '../types';
+
+const puzzle = (word: string, english: string): LoadedPuzzle => ({
+  wordData: { word, english, transliteration: english, distractors: ['House', 'Egg'], distractorLetters: ['ம', 'சி'] },
+  images: [
+    { label: english, src: '', isTarget: true },
+    { label: 'House', src: '', isTarget: false },
+    { label: 'Egg', src: '', isTarget: false },
+  ],
+  audioData: '',
+  isReview: false,
+});
+
+// பால் splits into the slots பா and ல்
+const MILK = puzzle('பால்', 'Milk');
+const MONKEY = puzzle('குரங்கு', 'Monkey');
+
+const settings: SeriesSettings = {
+  ...DEFAULT_SETTINGS,
+  totalRounds: 2,
+  guessLimits: { ...DEFAULT_SETTINGS.guessLimits, [Difficulty.EASY]: 3, [Difficulty.MEDIUM]: 3 },
+};
+
+const win: GameAction[] = [{ type: 'GUESS', letter: 'பா' }, { type: 'GUESS', letter: 'ல்' }];
+const lose: GameAction[] = [{ type: 'GUESS', letter: 'ம' }, { type: 'GUESS', letter: 'சி' }, { type: 'GUESS', letter: 'க' }];
+
+const run = (state: GameState, ...actions: GameAction[]): GameState => actions.reduce(gameReducer, state);
+
+const startSeries = (overrides: Partial<SeriesSettings> = {}): GameState =>
+  run(initialGameState, {
+    type: 'START_SERIES',
+    difficulty: Difficulty.EASY,
+    category: null,
+    teams: DEFAULT_TEAMS,
+    settings: { ...settings, ...overrides },
+  });
+
+const playing = (loaded: LoadedPuzzle = MILK, overrides: Partial<SeriesSettings> = {}): GameState =>
+  run(startSeries(overrides), { type: 'PUZZLE_LOADED', puzzle: loaded });
+
+describe('gameReducer status transitions', () => {
+  it('goes from IDLE to DIFFICULTY_SELECT', () => {
+    expect(gameReducer(initialGameState, { type: 'SHOW_DIFFICULTY_SELECT' }).status).toBe(GameStatus.DIFFICULTY_SELECT);
+  });
+
+  it('goes from DIFFICULTY_SELECT to LOADING when a series starts', () => {
+    const state = run(initialGameState, { type: 'SHOW_DIFFICULTY_SELECT' }, {
+      type: 'START_SERIES', difficulty: Difficulty.EASY, category: null, teams: DEFAULT_TEAMS, settings,
+    });
+    expect(state.status).toBe(GameStatus.LOADING);
+    expect(state.scores).toEqual({ A: 0, B: 0 });
+    expect(state.currentTeam).toBe('A');
+  });
+
+  it('goes from LOADING to PLAYING when the puzzle arrives', () => {
+    const state = playing();
+    expect(state.status).toBe(GameStatus.PLAYING);
+    expect(state.wordSegments).toEqual(['பா', 'ல்']);
+    expect(state.usedWords).toEqual(['பால்']);
+  });
+
+  it('goes from PLAYING to WON and scores the team that finished the word', () => {
+    const state = run(playing(), ...win);
+    expect(state.status).toBe(GameStatus.WON);
+    expect(state.scores.A).toBe(settings.pointsPerWin);
+    expect(state.roundHistory).toHaveLength(1);
+    expect(state.roundHistory[0].solvedBy).toBe('A');
+  });
+
+  it('goes from PLAYING to LOST when the wrong guesses run out', () => {
+    const state = run(playing(), ...lose);
+    expect(state.status).toBe(GameStatus.LOST);
+    expect(state.wrongGuesses).toBe(3);
+    expect(state.scores).toEqual({ A: 0, B: 0 });
+    expect(state.roundHistory[0].solvedBy).toBeNull();
+  });
+
+  it('goes from WON to LOADING for the next round, rotating the starter', () => {
+    const state = run(playing(), ...win, { type: 'NEXT_ROUND' });
+    expect(state.status).toBe(GameStatus.LOADING);
+    expect(state.roundNumber).toBe(2);
+    expect(state.currentTeam).toBe('B');
+    expect(state.wordData).toBeNull();
+  });
+
+  it('starts a prefetched puzzle straight away on NEXT_ROUND', () => {
+    const state = run(playing(), ...win, { type: 'NEXT_ROUND', puzzle: MONKEY });
+    expect(state.status).toBe(GameStatus.PLAYING);
+    expect(state.wordData?.word).toBe('குரங்கு');
+  });
+
+  it('goes from LOST to SERIES_OVER after the final round', () => {
+    const state = run(playing(), ...lose, { type: 'NEXT_ROUND', puzzle: MILK }, ...lose, { type: 'NEXT_ROUND' });
+    expect(state.status).toBe(GameStatus.SERIES_OVER);
+    expect(state.roundHistory).toHaveLength(2);
+  });
+
+  it('goes from LOADING to ERROR and back to LOADING on RETRY_PUZZLE', () => {
+    const failed = gameReducer(startSeries(), { type: 'PUZZLE_FAILED', message: 'No network' });
+    expect(failed.status).toBe(GameStatus.ERROR);
+    expect(failed.errorMsg).toBe('No network');
+
+    const retried = gameReducer(failed, { type: 'RETRY_PUZZLE' });
+    expect(retried.status).toBe(GameStatus.LOADING);
+    expect(retried.errorMsg).toBeNull();
+  });
+});
+
+describe('gameReducer ignored actions', () => {
+  it('ignores a guess when no round is being played', () => {
+    const loading = startSeries();
+    expect(gameReducer(loading, { type: 'GUESS', letter: 'பா' })).toBe(loading);
+    expect(gameReducer(initialGameState, { type: 'GUESS', letter: 'பா' })).toBe(initialGameState);
+  });
+
+  it('ignores a letter that was already guessed', () => {
+    const state = run(playing(), { type: 'GUESS', letter: 'ம' });
+    expect(gameReducer(state, { type: 'GUESS', letter: 'ம' })).toBe(state);
+  });
+
+  it('ignores NEXT_ROUND while the round is still being played', () => {
+    const state = playing();
+    expect(gameReducer(state, { type: 'NEXT_ROUND' })).toBe(state);
+  });
+
+  it('ignores RETRY_PUZZLE unless the puzzle failed', () => {
+    const state = playing();
+    expect(gameReducer(state, { type: 'RETRY_PUZZLE' })).toBe(state);
+  });
+
+  it('ignores a puzzle arriving when nothing is loading', () => {
+    const state = playing();
+    expect(gameReducer(state, { type: 'PUZZLE_LOADED', puzzle: MONKEY })).toBe(state);
+    expect(gameReducer(state, { type: 'PUZZLE_FAILED', message: 'late' })).toBe(state);
+  });
+
+  it('ignores a second picture pick in the same round', () => {
+    const state = run(playing(), { type: 'PICK_PICTURE', label: 'House' });
+    expect(gameReducer(state, { type: 'PICK_PICTURE', label: 'Milk' })).toBe(state);
+  });
+
+  it('ignores a series with no teams', () => {
+    const state = gameReducer(initialGameState, {
+      type: 'START_SERIES', difficulty: Difficulty.EASY, category: null, teams: [], settings,
+    });
+    expect(state).toBe(initialGameState);
+  });
+});
+
+describe('gameReducer turns', () => {
+  it('passes the turn on a wrong guess and keeps it on a right one', () => {
+    const afterWrong = run(playing(), { type: 'GUESS', letter: 'ம' });
+    expect(afterWrong.currentTeam).toBe('B');
+    const afterRight = gameReducer(afterWrong, { type: 'GUESS', letter: 'பா' });
+    expect(afterRight.currentTeam).toBe('B');
+  });
+
+  it('passes the turn on a right guess too when the settings say so', () => {
+    const state = run(playing(MILK, { correctGuessKeepsTurn: false }), { type: 'GUESS', letter: 'பா' });
+    expect(state.currentTeam).toBe('B');
+  });
+
+  it('ignores a timeout unless the turn timer is on', () => {
+    const state = playing();
+    expect(gameReducer(state, { type: 'TURN_TIMEOUT' })).toBe(state);
+    const timed = gameReducer(playing(MILK, { turnTimer: true }), { type: 'TURN_TIMEOUT' });
+    expect(timed.currentTeam).toBe('B');
+    expect(timed.wrongGuesses).toBe(0);
+  });
+});
+
+describe('gameReducer reveal hint', () => {
+  // குரங்கு splits into கு, ர, ங், கு
+  it('is not offered when every hidden slot holds the same letter', () => {
+    const state = run(playing(MONKEY), { type: 'GUESS', letter: 'ர' }, { type: 'GUESS', letter: 'ங்' });
+    expect(isHintAvailable(state, 'reveal')).toBe(false);
+    expect(gameReducer(state, { type: 'USE_HINT', hint: 'reveal', letters: ['கு'] })).toBe(state);
+  });
+
+  it('is not offered when one letter-family key would fill every hidden slot', () => {
+    // With ர், ங் and உ guessed, only க் is missing from both கு slots
+    const state = run(playing(MONKEY, { letterFamilyMode: true }), { type: 'GUESS', letter: 'ர்' }, { type: 'GUESS', letter: 'அ' }, { type: 'GUESS', letter: 'ங்' }, { type: 'GUESS', letter: 'உ' });
+    expect(state.status).toBe(GameStatus.PLAYING);
+    expect(isHintAvailable(state, 'reveal')).toBe(false);
+  });
+
+  it('offers each distinct hidden letter once', () => {
+    const state = run(playing(MONKEY), { type: 'GUESS', letter: 'ர' });
+    expect(getRevealableSlots(state).sort()).toEqual(['கு', 'ங்'].sort());
+  });
+
+  it('wins the round when a one-slot reveal fills the last slots', () => {
+    // கொக்கு splits into கொ, க், கு; with ஒ and உ guessed every slot only lacks க்
+    const state = run(playing(puzzle('கொக்கு', 'Crane'), { letterFamilyMode: true }), { type: 'GUESS', letter: 'ஒ' }, { type: 'GUESS', letter: 'உ' });
+    const won = gameReducer(state, { type: 'USE_HINT', hint: 'reveal', letters: ['க்'] });
+    expect(won.status).toBe(GameStatus.WON);
+    expect(won.scores.A).toBe(settings.pointsPerWin);
+    expect(won.roundHistory).toHaveLength(1);
+  });
+
+  it('ignores a reveal covering more than one slot', () => {
+    const state = playing();
+    expect(gameReducer(state, { type: 'USE_HINT', hint: 'reveal', letters: ['பா', 'ல்'] })).toBe(state);
+    expect(gameReducer(state, { type: 'USE_HINT', hint: 'reveal', letters: ['பா'] }).guessedLetters).toEqual(new Set(['பா']));
+  });
+});
@@ -0,0 +1,393 @@
+import { GameStatus, GameWordData, GameImage, Difficulty, Team, DEFAULT_TEAMS, SeriesSettings, DEFAULT_SETTINGS, HintType, HintCost, WordCategory, LoadedPuzzle } from '../types';
+import { segmentText, getLetterKeys } from './tamil';
+
+export type TeamId = string;
+
+export interface PictureGuess {
+  label: string;
+  correct: boolean;
+  team: TeamId;
+}
+
+export interface UsedHint {
+  type: HintType;
+  team: TeamId;
+  cost: HintCost; // As charged, in case the settings change later
+  letters: string[]; // Keys revealed or eliminated by the hint
+}
+
+// What happened in a finished round, for the end-of-series review
+export interface RoundRecord {
+  roundNumber: number;
+  wordData: GameWordData;
+  image: GameImage | null; // The target picture
+  audioData: string | null;
+  solvedBy: TeamId | null; // null when the round was lost
+  wrongGuesses: number;
+  maxGuesses: number;
+  hintsUsed: UsedHint[];
+  isReviewWord: boolean;
+}
+
+export interface GameState {
+  status: GameStatus;
+  difficulty: Difficulty;
+  category: WordCategory | null; // Topic every word in the series comes from; null for any
+  settings: SeriesSettings; // Fixed for the whole series once it starts
+  wordData: GameWordData | null;
+  isReviewWord: boolean; // The word came back from a learner's review schedule
+  wordSegments: string[]; // The word split into functional Tamil letters
+  images: GameImage[];
+  audioData: string | null;
+  guessedLetters: Set<string>;
+  wrongGuesses: number;
+  pictureGuess: PictureGuess | null; // One picture pick is allowed per round
+  hintsUsed: UsedHint[];
+  eliminatedLetters: Set<string>; // Wrong keys taken off the keyboard by a hint
+  errorMsg: string | null;
+  usedWords: string[]; // Words used in the current series, to prevent duplicates
+  sessionWords: GameWordData[]; // Full data for every word played this series, for export
+  roundHistory: RoundRecord[]; // Every decided round this series, in order
+  teams: Team[]; // A single team is solo play
+  scores: Record<TeamId, number>;
+  currentTeam: TeamId;
+  roundStarter: TeamId;
+  roundNumber: number;
+  turnId: number; // Bumped on every move, so the turn timer knows to start over
+}
+
+export type GameAction =
+  | { type: 'SHOW_DIFFICULTY_SELECT' }
+  | { type: 'START_SERIES'; difficulty: Difficulty; category: WordCategory | null; teams: Team[]; settings: SeriesSettings }
+  | { type: 'RETRY_PUZZLE' }
+  | { type: 'PUZZLE_LOADED'; puzzle: LoadedPuzzle }
+  | { type: 'PUZZLE_FAILED'; message: string }
+  | { type: 'GUESS'; letter: string }
+  | { type: 'PICK_PICTURE'; label: string }
+  // `letters` carries the caller's random pick for the reveal and eliminate hints
+  | { type: 'USE_HINT'; hint: HintType; letters?: string[] }
+  // The current team's turn timer ran out
+  | { type: 'TURN_TIMEOUT' }
+  // `puzzle` is a prefetched puzzle to start immediately instead of loading
+  | { type: 'NEXT_ROUND'; puzzle?: LoadedPuzzle }
+  // Replaces the whole state with a match saved before a reload
+  | { type: 'RESTORE'; state: GameState };
+
+export const initialGameState: GameState = {
+  status: GameStatus.IDLE,
+  difficulty: Difficulty.EASY,
+  category: null,
+  settings: DEFAULT_SETTINGS,
+  wordData: null,
+  isReviewWord: false,
+  wordSegments: [],
+  images: [],
+  audioData: null,
+  guessedLetters: new Set(),
+  wrongGuesses: 0,
+  pictureGuess: null,
+  hintsUsed: [],
+  eliminatedLetters: new Set(),
+  errorMsg: null,
+  usedWords: [],
+  sessionWords: [],
+  roundHistory: [],
+  teams: DEFAULT_TEAMS,
+  scores: { A: 0, B: 0 },
+  currentTeam: 'A',
+  roundStarter: 'A',
+  roundNumber: 1,
+  turnId: 0,
+};
+
+// Turns pass around the teams in setup order; a solo player keeps every turn
+const nextTeam = (teams: Team[], team: TeamId): TeamId => {
+  const index = teams.findIndex(t => t.id === team);
+  return teams[(index + 1) % teams.length].id;
+};
+
+const zeroScores = (teams: Team[]): Record<TeamId, number> =>
+  Object.fromEntries(teams.map(team => [team.id, 0]));
+
+// Teams ordered by score, highest first
+export const getLeaderboard = (state: GameState): { team: Team; score: number }[] =>
+  state.teams
+    .map(team => ({ team, score: state.scores[team.id] ?? 0 }))
+    .sort((a, b) => b.score - a.score);
+
+// Every team sharing the top score; more than one means a tie
+export const getWinners = (state: GameState): Team[] => {
+  const leaderboard = getLeaderboard(state);
+  const topScore = leaderboard[0]?.score ?? 0;
+  return leaderboard.filter(entry => entry.score === topScore).map(entry => entry.team);
+};
+
+export const getMaxGuesses = (state: GameState): number => state.settings.guessLimits[state.difficulty];
+
+export const isFinalRound = (state: GameState): boolean => state.roundNumber >= state.settings.totalRounds;
+
+// The keys that must be guessed to fill a word slot: the whole letter, or in
+// letter-family mode its mei and uyir separately
+export const getSlotKeys = (segment: string, letterFamilyMode: boolean): string[] =>
+  letterFamilyMode ? getLetterKeys(segment) : [segment];
+
+export const isSlotRevealed = (segment: string, guessedLetters: Set<string>, letterFamilyMode: boolean): boolean =>
+  getSlotKeys(segment, letterFamilyMode).every(key => guessedLetters.has(key));
+
+export const hasUsedHint = (state: GameState, hint: HintType): boolean =>
+  state.hintsUsed.some(used => used.type === hint);
+
+// Whether the current team can pay for a hint: enough points, or at least one
+// guess left over afterwards
+export const canAffordHint = (state: GameState, hint: HintType): boolean => {
+  const { kind, amount } = state.settings.hintCosts[hint];
+  if (kind === 'points') return (state.scores[state.currentTeam] ?? 0) >= amount;
+  return state.wrongGuesses + amount < getMaxGuesses(state);
+};
+
+// Hidden letters the reveal hint may show, one slot at a time. There must be two
+// different ones left: repeated letters (கு in குரங்கு) fill every matching slot at
+// once, so a count of hidden slots isn't enough.
+export const getRevealableSlots = (state: GameState): string[] => {
+  const { letterFamilyMode } = state.settings;
+  const hidden = Array.from(new Set(state.wordSegments.filter(seg => !isSlotRevealed(seg, state.guessedLetters, letterFamilyMode))));
+  return hidden.length > 1 ? hidden : [];
+};
+
+// The keys a reveal of this slot adds to the guessed letters
+export const getRevealKeys = (state: GameState, segment: string): string[] =>
+  getSlotKeys(segment, state.settings.letterFamilyMode).filter(key => !state.guessedLetters.has(key));
+
+// Audio and transliteration only need unlocking once
+export const isHintAvailable = (state: GameState, hint: HintType): boolean => {
+  if (state.status !== GameStatus.PLAYING || !canAffordHint(state, hint)) return false;
+  if (hint === 'audio' || hint === 'transliteration') return !hasUsedHint(state, hint);
+  if (hint === 'reveal') return getRevealableSlots(state).length > 0;
+  return true;
+};
+
+export const getTeam = (state: GameState, id: TeamId): Team =>
+  state.teams.find(team => team.id === id) ?? state.teams[0];
+
+// Clear everything belonging to the current puzzle, keeping the series progress
+const clearRound = (state: GameState): GameState => ({
+  ...state,
+  wordData: null,
+  isReviewWord: false,
+  wordSegments: [],
+  images: [],
+  audioData: null,
+  guessedLetters: new Set(),
+  wrongGuesses: 0,
+  pictureGuess: null,
+  hintsUsed: [],
+  eliminatedLetters: new Set(),
+  errorMsg: null,
+});
+
+const startPuzzle = (state: GameState, puzzle: LoadedPuzzle): GameState => ({
+  ...clearRound(state),
+  status: GameStatus.PLAYING,
+  wordData: puzzle.wordData,
+  isReviewWord: puzzle.isReview,
+  wordSegments: segmentText(puzzle.wordData.word),
+  images: puzzle.images,
+  audioData: puzzle.audioData,
+  usedWords: [...state.usedWords, puzzle.wordData.word],
+  sessionWords: [...state.sessionWords, puzzle.wordData],
+});
+
+const applyGuess = (state: GameState, letter: string): GameState => {
+  const guessedLetters = new Set(state.guessedLetters);
+  guessedLetters.add(letter);
+
+  const { letterFamilyMode } = state.settings;
+  const isCorrect = state.wordSegments.some(seg => getSlotKeys(seg, letterFamilyMode).includes(letter));
+
+  if (!isCorrect) {
+    const wrongGuesses = state.wrongGuesses + 1;
+    if (wrongGuesses >= getMaxGuesses(state)) {
+      // No score change on loss
+      return { ...state, guessedLetters, wrongGuesses, status: GameStatus.LOST };
+    }
+    // Switch turn to the next team on failure
+    return { ...state, guessedLetters, wrongGuesses, currentTeam: nextTeam(state.teams, state.currentTeam) };
+  }
+
+  // Correct guess: Current team KEEPS the turn, unless the settings pass it on
+  const allGuessed = state.wordSegments.every(seg => isSlotRevealed(seg, guessedLetters, letterFamilyMode));
+  if (!allGuessed) {
+    const currentTeam = state.settings.correctGuessKeepsTurn ? state.currentTeam : nextTeam(state.teams, state.currentTeam);
+    return { ...state, guessedLetters, currentTeam };
+  }
+
+  // Award points to the team that made the winning guess
+  return {
+    ...state,
+    guessedLetters,
+    status: GameStatus.WON,
+    scores: { ...state.scores, [state.currentTeam]: state.scores[state.currentTeam] + state.settings.pointsPerWin },
+  };
+};
+
+const applyPicturePick = (state: GameState, label: string): GameState => {
+  const image = state.images.find(img => img.label === label);
+  if (!image) return state;
+
+  const pictureGuess: PictureGuess = { label, correct: image.isTarget, team: state.currentTeam };
+  if (!image.isTarget) {
+    // A wrong pick costs the team its turn, but not a hangman guess
+    return { ...state, pictureGuess, currentTeam: nextTeam(state.teams, state.currentTeam) };
+  }
+
+  return {
+    ...state,
+    pictureGuess,
+    scores: { ...state.scores, [state.currentTeam]: state.scores[state.currentTeam] + state.settings.pictureBonusPoints },
+  };
+};
+
+// Running out of time passes the turn on, and may cost a wrong guess like a bad letter would
+const applyTimeout = (state: GameState): GameState => {
+  const currentTeam = nextTeam(state.teams, state.currentTeam);
+  if (!state.settings.timeoutCountsAsWrong) return { ...state, currentTeam };
+
+  const wrongGuesses = state.wrongGuesses + 1;
+  if (wrongGuesses >= getMaxGuesses(state)) return { ...state, wrongGuesses, status: GameStatus.LOST };
+  return { ...state, wrongGuesses, currentTeam };
+};
+
+const applyHint = (state: GameState, hint: HintType, letters: string[] = []): GameState => {
+  const { letterFamilyMode } = state.settings;
+  const targetKeys = new Set(state.wordSegments.flatMap(seg => getSlotKeys(seg, letterFamilyMode)));
+  let { guessedLetters, eliminatedLetters } = state;
+
+  if (hint === 'reveal') {
+    // Exactly one slot's missing keys, whoever dispatched the hint
+    const revealsOneSlot = getRevealableSlots(state).some(segment => {
+      const keys = getRevealKeys(state, segment);
+      return keys.length === letters.length && keys.every(key => letters.includes(key));
+    });
+    if (!revealsOneSlot) return state;
+    guessedLetters = new Set([...guessedLetters, ...letters]);
+  } else if (hint === 'eliminate') {
+    if (letters.length === 0 || letters.some(letter => targetKeys.has(letter))) return state;
+    eliminatedLetters = new Set([...eliminatedLetters, ...letters]);
+  }
+
+  const cost = state.settings.hintCosts[hint];
+  const used: UsedHint = { type: hint, team: state.currentTeam, cost, letters };
+  const charged = cost.kind === 'points'
+    ? { scores: { ...state.scores, [state.currentTeam]: state.scores[state.currentTeam] - cost.amount } }
+    : { wrongGuesses: state.wrongGuesses + cost.amount };
+
+  const next: GameState = { ...state, ...charged, guessedLetters, eliminatedLetters, hintsUsed: [...state.hintsUsed, used] };
+  // In letter-family mode a revealed key can also fill the last other slots; that wins the round like a guess would
+  const allGuessed = state.wordSegments.every(seg => isSlotRevealed(seg, guessedLetters, letterFamilyMode));
+  if (hint !== 'reveal' || !allGuessed) return next;
+  return {
+    ...next,
+    status: GameStatus.WON,
+    scores: { ...next.scores, [state.currentTeam]: next.scores[state.currentTeam] + state.settings.pointsPerWin },
+  };
+};
+
+// A guess, picture pick or timeout that changed anything starts a new turn
+const nextTurn = (prev: GameState, next: GameState): GameState =>
+  next === prev ? next : { ...next, turnId: prev.turnId + 1 };
+
+const isRoundOver = (state: GameState): boolean => state.status === GameStatus.WON || state.status === GameStatus.LOST;
+
+// Adds the round to the history once the action has decided it
+const recordRound = (prev: GameState, next: GameState): GameState => {
+  if (isRoundOver(prev) || !isRoundOver(next) || !next.wordData) return next;
+  const record: RoundRecord = {
+    roundNumber: next.roundNumber,
+    wordData: next.wordData,
+    image: next.images.find(img => img.isTarget) ?? null,
+    audioData: next.audioData,
+    solvedBy: next.status === GameStatus.WON ? next.currentTeam : null,
+    wrongGuesses: next.wrongGuesses,
+    maxGuesses: getMaxGuesses(next),
+    hintsUsed: next.hintsUsed,
+    isReviewWord: next.isReviewWord,
+  };
+  return { ...next, roundHistory: [...next.roundHistory, record] };
+};
+
+export const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'SHOW_DIFFICULTY_SELECT':
+      return { ...state, status: GameStatus.DIFFICULTY_SELECT };
+
+    case 'START_SERIES':
+      if (action.teams.length === 0) return state;
+      return {
+        ...clearRound(state),
+        status: GameStatus.LOADING,
+        difficulty: action.difficulty,
+        category: action.category,
+        settings: action.settings,
+        teams: action.teams,
+        scores: zeroScores(action.teams),
+        roundNumber: 1,
+        roundStarter: action.teams[0].id,
+        currentTeam: action.teams[0].id,
+        usedWords: [], // Reset word history for new tournament
+        sessionWords: [],
+        roundHistory: [],
+      };
+
+    case 'RETRY_PUZZLE':
+      if (state.status !== GameStatus.ERROR) return state;
+      return { ...clearRound(state), status: GameStatus.LOADING };
+
+    case 'PUZZLE_LOADED':
+      if (state.status !== GameStatus.LOADING) return state;
+      return startPuzzle(state, action.puzzle);
+
+    case 'PUZZLE_FAILED':
+      if (state.status !== GameStatus.LOADING) return state;
+      return { ...state, status: GameStatus.ERROR, errorMsg: action.message };
+
+    case 'GUESS':
+      if (state.status !== GameStatus.PLAYING || state.guessedLetters.has(action.letter)) return state;
+      if (state.eliminatedLetters.has(action.letter)) return state;
+      return nextTurn(state, recordRound(state, applyGuess(state, action.letter)));
+
+    case 'PICK_PICTURE':
+      if (state.status !== GameStatus.PLAYING || state.pictureGuess) return state;
+      return nextTurn(state, applyPicturePick(state, action.label));
+
+    case 'TURN_TIMEOUT':
+      if (state.status !== GameStatus.PLAYING || !state.settings.turnTimer) return state;
+      return nextTurn(state, recordRound(state, applyTimeout(state)));
+
+    case 'USE_HINT':
+      if (!isHintAvailable(state, action.hint)) return state;
+      return recordRound(state, applyHint(state, action.hint, action.letters));
+
+    case 'NEXT_ROUND': {
+      if (state.status !== GameStatus.WON && state.status !== GameStatus.LOST) return state;
+      if (isFinalRound(state)) return { ...state, status: GameStatus.SERIES_OVER };
+
+      // Rotate starter: Puzzle 1->A, Puzzle 2->B, Puzzle 3->C...
+      // The starter takes the first turn
+      const roundStarter = nextTeam(state.teams, state.roundStarter);
+      const nextRound: GameState = {
+        ...clearRound(state),
+        status: GameStatus.LOADING,
+        roundNumber: state.roundNumber + 1,
+        roundStarter,
+        currentTeam: roundStarter,
+      };
+      return action.puzzle ? startPuzzle(nextRound, action.puzzle) : nextRound;
+    }
+
+    case 'RESTORE':
+      return action.state;
+
+    default:
+      return state;
+  }
+};
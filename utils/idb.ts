@@ -0,0 +1,64 @@
+// Minimal promise wrappers around the app's IndexedDB database
+const DB_NAME = 'tamil-hangman';
+const DB_VERSION = 3; // 2: added snapshots, 3: added wordLists
+
+// Every store uses `key` as its key path
+export const STORE_NAMES = ['assets', 'assetIndex', 'snapshots', 'wordLists'] as const;
+export type StoreName = typeof STORE_NAMES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of STORE_NAMES) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'key' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return toPromise(action(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const idbGet = <T>(storeName: StoreName, key: string): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', store => store.get(key));
+
+export const idbGetAll = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.getAll());
+
+export const idbPut = async <T extends { key: string }>(storeName: StoreName, value: T): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+};
+
+export const idbDelete = async (storeName: StoreName, key: string): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const idbClear = async (storeName: StoreName): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.clear());
+};
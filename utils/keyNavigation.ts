@@ -0,0 +1,47 @@
+import type React from 'react';
+
+type Direction = 'ArrowLeft' | 'ArrowRight' | 'ArrowUp' | 'ArrowDown';
+
+const center = (rect: DOMRect) => ({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+
+// Picks the nearest key in the given direction, by on-screen position, so the
+// same handler works for fixed grids and wrapping rows
+const findNextKey = (keys: HTMLButtonElement[], from: HTMLButtonElement, direction: Direction) => {
+  const origin = center(from.getBoundingClientRect());
+  let best: HTMLButtonElement | null = null;
+  let bestScore = Infinity;
+
+  for (const key of keys) {
+    if (key === from) continue;
+    const { x, y } = center(key.getBoundingClientRect());
+    const dx = x - origin.x;
+    const dy = y - origin.y;
+    const horizontal = direction === 'ArrowLeft' || direction === 'ArrowRight';
+    const along = horizontal ? dx : dy;
+    const across = horizontal ? dy : dx;
+    const forward = direction === 'ArrowRight' || direction === 'ArrowDown' ? along : -along;
+    if (forward <= 1) continue;
+    // Staying in the same row/column matters more than distance
+    const score = forward + Math.abs(across) * 4;
+    if (score < bestScore) {
+      bestScore = score;
+      best = key;
+    }
+  }
+  return best;
+};
+
+// onKeyDown handler for an on-screen keyboard: arrow keys move focus between its
+// enabled keys. Enter and Space already press a focused button.
+export const moveFocusWithArrows = (event: React.KeyboardEvent<HTMLElement>) => {
+  if (!['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'].includes(event.key)) return;
+  const current = document.activeElement;
+  if (!(current instanceof HTMLButtonElement) || !event.currentTarget.contains(current)) return;
+
+  const keys = Array.from<HTMLButtonElement>(event.currentTarget.querySelectorAll('button:not(:disabled)'));
+  const next = findNextKey(keys, current, event.key as Direction);
+  if (next) {
+    event.preventDefault();
+    next.focus();
+  }
+};
@@ -0,0 +1,12 @@
+// Builds a simple SVG picture card so rounds can be drawn without image generation
+export const createPlaceholderImage = (label: string, emoji: string = '❓'): string => {
+  const escapedLabel = label.replace(/[<>&"']/g, '');
+  const svg = `
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 200">
+      <rect width="200" height="200" rx="24" fill="#f0f9ff" />
+      <text x="100" y="118" font-size="96" text-anchor="middle" dominant-baseline="middle">${emoji}</text>
+      <title>${escapedLabel}</title>
+    </svg>
+  `;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg.trim())}`;
+};
@@ -0,0 +1,20 @@
+interface RetryOptions {
+  attempts: number; // Including the first try
+  baseDelayMs: number; // Doubles after every failed attempt
+  shouldRetry: (error: unknown) => boolean;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs `task` until it succeeds, fails with an error not worth retrying, or runs out of attempts
+export const retryWithBackoff = async <T>(task: () => Promise<T>, { attempts, baseDelayMs, shouldRetry }: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= attempts || !shouldRetry(error)) throw error;
+      // A little jitter keeps a classroom of tablets from retrying in lockstep
+      await wait(baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5));
+    }
+  }
+};
@@ -0,0 +1,39 @@
+import { ReviewSchedule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASINESS = 1.3;
+
+export const createSchedule = (now: number): ReviewSchedule => ({
+  easiness: 2.5,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now,
+});
+
+// SM-2: `quality` runs from 0 (total blackout) to 5 (perfect recall)
+export const scheduleReview = (schedule: ReviewSchedule, quality: number, now: number): ReviewSchedule => {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+  const easiness = Math.max(MIN_EASINESS, schedule.easiness + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  let repetitions: number;
+  let interval: number;
+  if (q < 3) {
+    // Forgotten: start the sequence again and review tomorrow
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = schedule.repetitions + 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(schedule.interval * easiness);
+  }
+
+  return { easiness, interval, repetitions, dueAt: now + interval * DAY_MS };
+};
+
+// Turns a round result into an SM-2 quality grade
+export const gradeRound = (solved: boolean, wrongGuesses: number, maxGuesses: number): number => {
+  if (!solved) return 1;
+  // A clean solve is a 5; using up most of the guesses still counts as a pass (3)
+  return 5 - Math.round((2 * wrongGuesses) / Math.max(1, maxGuesses));
+};
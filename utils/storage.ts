@@ -0,0 +1,28 @@
+// JSON helpers around localStorage that never throw (quota, private browsing, bad data)
+const KEY_PREFIX = 'tamil-hangman.';
+
+export const loadJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(KEY_PREFIX + key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (error) {
+    console.warn(`Could not read ${key} from storage:`, error);
+    return fallback;
+  }
+};
+
+export const saveJSON = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save ${key} to storage:`, error);
+  }
+};
+
+export const removeJSON = (key: string): void => {
+  try {
+    localStorage.removeItem(KEY_PREFIX + key);
+  } catch (error) {
+    console.warn(`Could not remove ${key} from storage:`, error);
+  }
+};
@@ -0,0 +1,73 @@
+// Utility to segment Tamil text correctly into graphemes. Text is NFC normalized
+// first so letters like கொ match the single-codepoint signs the keyboards produce.
+export const segmentText = (text: string): string[] => {
+  const segmenter = new (Intl as any).Segmenter('ta', { granularity: 'grapheme' });
+  return Array.from(segmenter.segment(text.normalize('NFC'))).map((segment: any) => segment.segment);
+};
+
+// Tamil block, plus the joiners that can appear inside a Tamil grapheme
+const TAMIL_TEXT = /^[\u0B80-\u0BFF\u200C\u200D]+$/;
+
+export const isTamilText = (text: string): boolean => TAMIL_TEXT.test(text);
+
+export const isSingleGrapheme = (text: string): boolean => segmentText(text).length === 1;
+
+// Everyday letters used to pad out a keyboard when distractors are missing
+export const COMMON_LETTERS = [
+  'அ', 'ஆ', 'இ', 'உ', 'எ', 'ஒ',
+  'க', 'கா', 'கி', 'கு', 'ச', 'சா', 'டி', 'டு', 'த', 'தா', 'தி', 'து',
+  'ந', 'நா', 'ப', 'பா', 'பி', 'பு', 'ம', 'மா', 'மி', 'ய', 'ர', 'ரா', 'ரி',
+  'ல', 'லா', 'வ', 'வா', 'வி', 'ழ', 'ள', 'ற', 'ன', 'ண',
+  'க்', 'ச்', 'ட்', 'த்', 'ப்', 'ம்', 'ல்', 'ன்', 'ண்', 'ர்', 'ய்',
+];
+
+// Uyir (vowels) in alphabet order, with the sign each one takes after a consonant
+export const UYIR = ['அ', 'ஆ', 'இ', 'ஈ', 'உ', 'ஊ', 'எ', 'ஏ', 'ஐ', 'ஒ', 'ஓ', 'ஔ'];
+export const VOWEL_SIGNS = ['', 'ா', 'ி', 'ீ', 'ு', 'ூ', 'ெ', 'ே', 'ை', 'ொ', 'ோ', 'ௌ']; // அ has no sign
+
+export const PULLI = '்';
+export const AYTHAM = 'ஃ'; // Stands on its own in the alphabet chart, after the uyir
+
+// Mei (consonants) in alphabet order, followed by the grantha consonants
+export const MEI = ['க்', 'ங்', 'ச்', 'ஞ்', 'ட்', 'ண்', 'த்', 'ந்', 'ப்', 'ம்', 'ய்', 'ர்', 'ல்', 'வ்', 'ழ்', 'ள்', 'ற்', 'ன்'];
+export const GRANTHA_MEI = ['ஜ்', 'ஷ்', 'ஸ்', 'ஹ்'];
+
+const ALL_MEI = [...MEI, ...GRANTHA_MEI];
+
+export interface LetterParts {
+  mei: string | null; // e.g. க் for கா
+  uyir: string | null; // e.g. ஆ for கா
+}
+
+// Splits a grapheme into mei + uyir: கா = க் + ஆ, க = க் + அ, க் = க், ஆ = ஆ.
+// Anything else (e.g. ஃ) comes back with both parts null.
+export const decomposeLetter = (grapheme: string): LetterParts => {
+  const letter = grapheme.normalize('NFC');
+  if (UYIR.includes(letter)) return { mei: null, uyir: letter };
+  if (ALL_MEI.includes(letter)) return { mei: letter, uyir: null };
+
+  const [base, ...rest] = Array.from(letter);
+  const mei = base + PULLI;
+  if (!ALL_MEI.includes(mei)) return { mei: null, uyir: null };
+
+  const signIndex = VOWEL_SIGNS.indexOf(rest.join(''));
+  if (signIndex === -1) return { mei: null, uyir: null };
+  return { mei, uyir: UYIR[signIndex] };
+};
+
+// Builds the uyirmei letter for a mei + uyir pair: க் + ஆ = கா
+export const combineLetter = (mei: string, uyir: string): string =>
+  mei.replace(PULLI, '') + VOWEL_SIGNS[UYIR.indexOf(uyir)];
+
+// Whether a grapheme can be typed from the alphabet chart (uyir, mei, uyirmei or ஃ)
+export const isChartLetter = (grapheme: string): boolean => {
+  const { mei, uyir } = decomposeLetter(grapheme);
+  return mei !== null || uyir !== null || grapheme === AYTHAM;
+};
+
+// The letters a player must guess in letter-family mode to complete this grapheme
+export const getLetterKeys = (grapheme: string): string[] => {
+  const { mei, uyir } = decomposeLetter(grapheme);
+  if (!mei && !uyir) return [grapheme];
+  return [mei, uyir].filter((part): part is string => part !== null);
+};
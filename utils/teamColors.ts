@@ -0,0 +1,69 @@
+import { TeamColor } from '../types';
+
+export interface TeamColorStyles {
+  swatch: string; // Solid fill for pickers and the turn banner
+  label: string; // Team name text
+  score: string; // Score digits
+  announcer: string; // "It's X's turn" pill
+  activeBadge: string; // Scoreboard badge while the team is taking its turn
+}
+
+// Full class names are spelled out so Tailwind can see every one of them
+export const TEAM_COLOR_STYLES: Record<TeamColor, TeamColorStyles> = {
+  blue: {
+    swatch: 'bg-blue-500',
+    label: 'text-blue-700',
+    score: 'text-blue-900',
+    announcer: 'text-blue-600 bg-blue-50 border-blue-200',
+    activeBadge: 'bg-blue-100 border-blue-500 ring-4 ring-blue-200',
+  },
+  orange: {
+    swatch: 'bg-orange-500',
+    label: 'text-orange-700',
+    score: 'text-orange-900',
+    announcer: 'text-orange-600 bg-orange-50 border-orange-200',
+    activeBadge: 'bg-orange-100 border-orange-500 ring-4 ring-orange-200',
+  },
+  green: {
+    swatch: 'bg-green-500',
+    label: 'text-green-700',
+    score: 'text-green-900',
+    announcer: 'text-green-600 bg-green-50 border-green-200',
+    activeBadge: 'bg-green-100 border-green-500 ring-4 ring-green-200',
+  },
+  purple: {
+    swatch: 'bg-purple-500',
+    label: 'text-purple-700',
+    score: 'text-purple-900',
+    announcer: 'text-purple-600 bg-purple-50 border-purple-200',
+    activeBadge: 'bg-purple-100 border-purple-500 ring-4 ring-purple-200',
+  },
+  pink: {
+    swatch: 'bg-pink-500',
+    label: 'text-pink-700',
+    score: 'text-pink-900',
+    announcer: 'text-pink-600 bg-pink-50 border-pink-200',
+    activeBadge: 'bg-pink-100 border-pink-500 ring-4 ring-pink-200',
+  },
+  teal: {
+    swatch: 'bg-teal-500',
+    label: 'text-teal-700',
+    score: 'text-teal-900',
+    announcer: 'text-teal-600 bg-teal-50 border-teal-200',
+    activeBadge: 'bg-teal-100 border-teal-500 ring-4 ring-teal-200',
+  },
+  red: {
+    swatch: 'bg-red-500',
+    label: 'text-red-700',
+    score: 'text-red-900',
+    announcer: 'text-red-600 bg-red-50 border-red-200',
+    activeBadge: 'bg-red-100 border-red-500 ring-4 ring-red-200',
+  },
+  yellow: {
+    swatch: 'bg-yellow-500',
+    label: 'text-yellow-700',
+    score: 'text-yellow-900',
+    announcer: 'text-yellow-600 bg-yellow-50 border-yellow-200',
+    activeBadge: 'bg-yellow-100 border-yellow-500 ring-4 ring-yellow-200',
+  },
+};
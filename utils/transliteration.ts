@@ -0,0 +1,114 @@
+import { combineLetter } from './tamil';
+
+// Romanization used to auto-fill the pronunciation guide for imported words
+const VOWELS: Record<string, string> = {
+  'அ': 'a', 'ஆ': 'aa', 'இ': 'i', 'ஈ': 'ee', 'உ': 'u', 'ஊ': 'oo',
+  'எ': 'e', 'ஏ': 'ae', 'ஐ': 'ai', 'ஒ': 'o', 'ஓ': 'oa', 'ஔ': 'au',
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  'ா': 'aa', 'ி': 'i', 'ீ': 'ee', 'ு': 'u', 'ூ': 'oo',
+  'ெ': 'e', 'ே': 'ae', 'ை': 'ai', 'ொ': 'o', 'ோ': 'oa', 'ௌ': 'au',
+};
+
+const CONSONANTS: Record<string, string> = {
+  'க': 'k', 'ங': 'ng', 'ச': 'ch', 'ஞ': 'nj', 'ட': 'd', 'ண': 'n',
+  'த': 'th', 'ந': 'n', 'ப': 'p', 'ம': 'm', 'ய': 'y', 'ர': 'r',
+  'ல': 'l', 'வ': 'v', 'ழ': 'zh', 'ள': 'l', 'ற': 'r', 'ன': 'n',
+  'ஜ': 'j', 'ஷ': 'sh', 'ஸ': 's', 'ஹ': 'h',
+};
+
+const PULLI = '்';
+const AYTHAM = 'ஃ';
+
+export const toRoman = (tamil: string): string => {
+  const chars = Array.from(tamil);
+  let roman = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const next = chars[i + 1];
+
+    if (CONSONANTS[char]) {
+      roman += CONSONANTS[char];
+      if (next === PULLI) {
+        i++;
+      } else if (next && VOWEL_SIGNS[next]) {
+        roman += VOWEL_SIGNS[next];
+        i++;
+      } else {
+        roman += 'a'; // Inherent vowel
+      }
+    } else if (VOWELS[char]) {
+      roman += VOWELS[char];
+    } else if (char === AYTHAM) {
+      roman += 'h';
+    } else {
+      roman += char;
+    }
+  }
+
+  return roman.charAt(0).toUpperCase() + roman.slice(1);
+};
+
+// Typing scheme for guesses on a physical keyboard. Unlike the romanization above,
+// every letter has its own key sequence; capitals pick the retroflex letters.
+const TYPING_VOWELS: Record<string, string> = {
+  'a': 'அ', 'aa': 'ஆ', 'A': 'ஆ', 'i': 'இ', 'ii': 'ஈ', 'ee': 'ஈ', 'I': 'ஈ',
+  'u': 'உ', 'uu': 'ஊ', 'oo': 'ஊ', 'U': 'ஊ', 'e': 'எ', 'E': 'ஏ', 'ae': 'ஏ',
+  'ai': 'ஐ', 'o': 'ஒ', 'O': 'ஓ', 'oa': 'ஓ', 'au': 'ஔ',
+};
+
+const TYPING_CONSONANTS: Record<string, string> = {
+  'k': 'க', 'g': 'க', 'ng': 'ங', 'ch': 'ச', 'c': 'ச', 'nj': 'ஞ', 'T': 'ட', 'd': 'ட',
+  'N': 'ண', 'th': 'த', 't': 'த', 'w': 'ந', 'nh': 'ந', 'p': 'ப', 'b': 'ப', 'm': 'ம',
+  'y': 'ய', 'r': 'ர', 'l': 'ல', 'v': 'வ', 'zh': 'ழ', 'z': 'ழ', 'L': 'ள', 'R': 'ற',
+  'n': 'ன', 'j': 'ஜ', 'sh': 'ஷ', 's': 'ஸ', 'h': 'ஹ',
+};
+
+const TYPING_AYTHAM = 'q';
+
+// Shown next to the typing box so players can find the less obvious letters
+export const TYPING_HINTS = 'T=ட N=ண w=ந L=ள R=ற zh=ழ n=ன q=ஃ';
+
+const byLengthDesc = (keys: string[]) => [...keys].sort((a, b) => b.length - a.length);
+const VOWEL_KEYS = byLengthDesc(Object.keys(TYPING_VOWELS));
+const CONSONANT_KEYS = byLengthDesc(Object.keys(TYPING_CONSONANTS));
+
+const matchKey = (input: string, at: number, keys: string[]) => keys.find(key => input.startsWith(key, at));
+
+// Converts typed romanization to Tamil: "kaa" → கா, "k" → க், "zha" → ழ.
+// Returns null when the input contains something the scheme doesn't know.
+export const fromRoman = (input: string): string | null => {
+  let tamil = '';
+  let i = 0;
+
+  while (i < input.length) {
+    if (input[i] === TYPING_AYTHAM) {
+      tamil += AYTHAM;
+      i++;
+      continue;
+    }
+
+    const consonant = matchKey(input, i, CONSONANT_KEYS);
+    if (consonant) {
+      i += consonant.length;
+      const mei = TYPING_CONSONANTS[consonant] + PULLI;
+      const vowel = matchKey(input, i, VOWEL_KEYS);
+      if (vowel) {
+        tamil += combineLetter(mei, TYPING_VOWELS[vowel]);
+        i += vowel.length;
+      } else {
+        tamil += mei;
+      }
+      continue;
+    }
+
+    const vowel = matchKey(input, i, VOWEL_KEYS);
+    if (!vowel) return null;
+    tamil += TYPING_VOWELS[vowel];
+    i += vowel.length;
+  }
+
+  return tamil;
+};
@@ -1,6 +1,9 @@
 import path from 'path';
+import type { Server } from 'http';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createGeminiProxy, proxyOptionsFromEnv } from './server/geminiProxy';
+import { attachClassroomServer } from './server/classroom';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,11 +12,23 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [
+        react(),
+        {
+          // Serve the Gemini proxy from the dev server; the key stays in this Node process
+          name: 'gemini-proxy',
+          configureServer(server) {
+            server.middlewares.use(createGeminiProxy(proxyOptionsFromEnv(env)));
+          },
+        },
+        {
+          // Classroom mode's WebSocket relay, on the same port as the app
+          name: 'classroom',
+          configureServer(server) {
+            if (server.httpServer) attachClassroomServer(server.httpServer as Server);
+          },
+        },
+      ],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),